@@ -0,0 +1,123 @@
+import { Readable } from 'node:stream'
+
+import { describe, expect, test } from 'vitest'
+
+import { createExpressAdapter, createFetchAdapter, createNodeAdapter } from './adapters'
+import { PermissionError } from './createPermissions'
+
+import type { ZeroServerEndpoints } from './adapters'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+
+function createFakeServer() {
+  const calls: Array<{ authData: unknown; url: string; body: unknown }> = []
+
+  const record = async ({ authData, request }: { authData: any; request: Request }) => {
+    calls.push({ authData, url: request.url, body: await request.json() })
+    return { response: { ok: true } }
+  }
+
+  const server: ZeroServerEndpoints = {
+    handleMutationRequest: record,
+    handleQueryRequest: record,
+  }
+
+  return { server, calls }
+}
+
+function createNodeRequest(body: string, url = '/api/zero/push?schema=s&appID=a') {
+  return Object.assign(Readable.from([Buffer.from(body)]), {
+    url,
+    method: 'POST',
+    headers: { host: 'example.com', 'content-length': String(body.length) },
+  }) as unknown as IncomingMessage
+}
+
+function createNodeResponse() {
+  const res = {
+    statusCode: 0,
+    headers: {} as Record<string, string>,
+    body: '',
+    setHeader(key: string, value: string) {
+      res.headers[key] = value
+    },
+    end(body: string) {
+      res.body = body
+    },
+  }
+  return res
+}
+
+describe('adapters', () => {
+  test('fetch adapter passes auth and returns zero response as json', async () => {
+    const { server, calls } = createFakeServer()
+    const zero = createFetchAdapter(server, { getAuthData: () => ({ id: 'u1' }) })
+
+    const response = await zero.push(
+      new Request('http://localhost/api/zero/push?schema=s', {
+        method: 'POST',
+        body: JSON.stringify({ mutations: [] }),
+      })
+    )
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ ok: true })
+    expect(calls[0]).toMatchObject({ authData: { id: 'u1' }, body: { mutations: [] } })
+  })
+
+  test('maps PermissionError from getAuthData to 403', async () => {
+    const { server } = createFakeServer()
+    const zero = createFetchAdapter(server, {
+      getAuthData: () => {
+        throw new PermissionError('bad token')
+      },
+    })
+
+    const response = await zero.pull(new Request('http://localhost/', { method: 'POST' }))
+
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ error: 'permission' })
+  })
+
+  test('maps a closing server to 503', async () => {
+    const zero = createFetchAdapter(
+      {
+        handleMutationRequest: async () => {
+          throw Object.assign(new Error('closing'), { name: 'ZeroServerClosedError' })
+        },
+        handleQueryRequest: async () => ({ response: null }),
+      },
+      { getAuthData: () => null }
+    )
+
+    const response = await zero.push(new Request('http://localhost/', { method: 'POST' }))
+    expect(response.status).toBe(503)
+  })
+
+  test('node adapter reads the body stream and keeps the query string', async () => {
+    const { server, calls } = createFakeServer()
+    const zero = createNodeAdapter(server, { getAuthData: () => null })
+    const res = createNodeResponse()
+
+    await zero.push(
+      createNodeRequest(JSON.stringify({ mutations: [1] })),
+      res as unknown as ServerResponse
+    )
+
+    expect(res.statusCode).toBe(200)
+    expect(JSON.parse(res.body)).toEqual({ ok: true })
+    expect(calls[0]).toMatchObject({
+      url: 'http://example.com/api/zero/push?schema=s&appID=a',
+      body: { mutations: [1] },
+    })
+  })
+
+  test('express adapter uses a body parsed by express.json()', async () => {
+    const { server, calls } = createFakeServer()
+    const zero = createExpressAdapter(server, { getAuthData: () => null })
+    const req = Object.assign(createNodeRequest(''), { body: { mutations: [2] } })
+
+    await zero.pull(req, createNodeResponse() as unknown as ServerResponse)
+
+    expect(calls[0]!.body).toEqual({ mutations: [2] })
+  })
+})
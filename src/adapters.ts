@@ -0,0 +1,245 @@
+import { PermissionError } from './createPermissions'
+import { getMutationErrorKind } from './helpers/createMutators'
+import { getLogger } from './logger'
+
+import type { AuthData } from './types'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+
+// the part of zeroServer the adapters need
+export type ZeroServerEndpoints = {
+  handleMutationRequest(args: {
+    authData: AuthData | null
+    request: Request
+  }): Promise<{ response: unknown }>
+  handleQueryRequest(args: {
+    authData: AuthData | null
+    request: Request
+  }): Promise<{ response: unknown }>
+}
+
+export type AdapterOptions<Req> = {
+  /**
+   * Resolve auth from the incoming request, return null for anonymous.
+   * Throw a PermissionError to reject with a 403.
+   */
+  getAuthData: (request: Req) => AuthData | null | Promise<AuthData | null>
+}
+
+export type AdapterResult = {
+  status: number
+  body: unknown
+}
+
+/**
+ * Maps errors that escape push/pull handling to an HTTP status and JSON body.
+ * Errors inside mutators and queries are already part of zero's response.
+ */
+export function getErrorResponse(error: unknown): AdapterResult {
+  if (error instanceof PermissionError) {
+    return { status: 403, body: { error: 'permission', message: error.message } }
+  }
+  // by name so adapters don't pull in createZeroServer and its db drivers
+  if (error instanceof Error && error.name === 'ZeroServerClosedError') {
+    return { status: 503, body: { error: 'unavailable', message: error.message } }
+  }
+  if (getMutationErrorKind(error) === 'validation') {
+    return {
+      status: 400,
+      body: { error: 'validation', message: error instanceof Error ? error.message : '' },
+    }
+  }
+
+  getLogger().error({ err: error }, `[on-zero] request failed`)
+  return { status: 500, body: { error: 'internal', message: 'Internal Server Error' } }
+}
+
+async function handle<Req>(
+  endpoint: 'push' | 'pull',
+  zeroServer: ZeroServerEndpoints,
+  { getAuthData }: AdapterOptions<Req>,
+  nativeRequest: Req,
+  toRequest: () => Request | Promise<Request>
+): Promise<AdapterResult> {
+  try {
+    const authData = await getAuthData(nativeRequest)
+    const request = await toRequest()
+    const { response } =
+      endpoint === 'push'
+        ? await zeroServer.handleMutationRequest({ authData, request })
+        : await zeroServer.handleQueryRequest({ authData, request })
+    return { status: 200, body: response }
+  } catch (error) {
+    return getErrorResponse(error)
+  }
+}
+
+function toResponse({ status, body }: AdapterResult) {
+  return Response.json(body, { status })
+}
+
+/**
+ * Push and pull handlers for fetch-style servers (Bun.serve, Deno, Next.js
+ * route handlers, Cloudflare workers):
+ *
+ *   const zero = createFetchAdapter(zeroServer, { getAuthData })
+ *   if (url.pathname === '/api/zero/push') return zero.push(request)
+ */
+export function createFetchAdapter(
+  zeroServer: ZeroServerEndpoints,
+  options: AdapterOptions<Request>
+) {
+  return {
+    push: async (request: Request) =>
+      toResponse(await handle('push', zeroServer, options, request, () => request)),
+    pull: async (request: Request) =>
+      toResponse(await handle('pull', zeroServer, options, request, () => request)),
+  }
+}
+
+// the part of a Hono Context the adapter uses
+export type HonoContextLike = { req: { raw: Request } }
+
+/**
+ * Hono handlers, getAuthData receives the Context:
+ *
+ *   const zero = createHonoAdapter(zeroServer, { getAuthData: (c) => c.get('auth') })
+ *   app.post('/api/zero/push', zero.push)
+ *   app.post('/api/zero/pull', zero.pull)
+ */
+export function createHonoAdapter<C extends HonoContextLike>(
+  zeroServer: ZeroServerEndpoints,
+  options: AdapterOptions<C>
+) {
+  return {
+    push: async (c: C) =>
+      toResponse(await handle('push', zeroServer, options, c, () => c.req.raw)),
+    pull: async (c: C) =>
+      toResponse(await handle('pull', zeroServer, options, c, () => c.req.raw)),
+  }
+}
+
+// express.json() and fastify leave the parsed body on the request
+type NodeRequestLike = IncomingMessage & { body?: unknown; originalUrl?: string }
+
+async function readBody(req: IncomingMessage, parsedBody: unknown): Promise<string> {
+  if (parsedBody !== undefined) {
+    if (typeof parsedBody === 'string') return parsedBody
+    if (parsedBody instanceof Uint8Array) return new TextDecoder().decode(parsedBody)
+    return JSON.stringify(parsedBody)
+  }
+
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+// zero reads schema and appID from the query string, so keep the full url
+async function toFetchRequest(
+  req: IncomingMessage,
+  { url, body }: { url: string | undefined; body: unknown }
+) {
+  const headers = new Headers()
+  for (const [key, value] of Object.entries(req.headers)) {
+    // the body is re-serialized, so its length may change
+    if (value === undefined || key === 'content-length' || key === 'transfer-encoding') {
+      continue
+    }
+    headers.set(key, Array.isArray(value) ? value.join(', ') : value)
+  }
+  headers.set('content-type', 'application/json')
+
+  return new Request(new URL(url ?? '/', `http://${req.headers.host ?? 'localhost'}`), {
+    method: req.method ?? 'POST',
+    headers,
+    body: await readBody(req, body),
+  })
+}
+
+function sendNodeResponse(res: ServerResponse, { status, body }: AdapterResult) {
+  res.statusCode = status
+  res.setHeader('content-type', 'application/json')
+  res.end(JSON.stringify(body))
+}
+
+/**
+ * Handlers for plain node:http servers:
+ *
+ *   const zero = createNodeAdapter(zeroServer, { getAuthData })
+ *   http.createServer((req, res) => {
+ *     if (req.url?.startsWith('/api/zero/push')) return zero.push(req, res)
+ *   })
+ */
+export function createNodeAdapter<Req extends NodeRequestLike = IncomingMessage>(
+  zeroServer: ZeroServerEndpoints,
+  options: AdapterOptions<Req>
+) {
+  const toRequest = (req: Req) => () =>
+    toFetchRequest(req, { url: req.originalUrl ?? req.url, body: req.body })
+
+  return {
+    push: async (req: Req, res: ServerResponse) =>
+      sendNodeResponse(
+        res,
+        await handle('push', zeroServer, options, req, toRequest(req))
+      ),
+    pull: async (req: Req, res: ServerResponse) =>
+      sendNodeResponse(
+        res,
+        await handle('pull', zeroServer, options, req, toRequest(req))
+      ),
+  }
+}
+
+/**
+ * Express handlers, works with or without express.json():
+ *
+ *   const zero = createExpressAdapter(zeroServer, { getAuthData: (req) => req.auth })
+ *   app.post('/api/zero/push', zero.push)
+ *   app.post('/api/zero/pull', zero.pull)
+ */
+export function createExpressAdapter<Req extends NodeRequestLike = NodeRequestLike>(
+  zeroServer: ZeroServerEndpoints,
+  options: AdapterOptions<Req>
+) {
+  return createNodeAdapter<Req>(zeroServer, options)
+}
+
+// the parts of Fastify's request and reply the adapter uses
+export type FastifyRequestLike = {
+  url: string
+  raw: IncomingMessage
+  body?: unknown
+}
+
+export type FastifyReplyLike = {
+  code(status: number): FastifyReplyLike
+  header(key: string, value: string): FastifyReplyLike
+  send(body: unknown): unknown
+}
+
+/**
+ * Fastify handlers, uses the body fastify already parsed:
+ *
+ *   const zero = createFastifyAdapter(zeroServer, { getAuthData: (req) => req.user })
+ *   app.post('/api/zero/push', zero.push)
+ *   app.post('/api/zero/pull', zero.pull)
+ */
+export function createFastifyAdapter<Req extends FastifyRequestLike>(
+  zeroServer: ZeroServerEndpoints,
+  options: AdapterOptions<Req>
+) {
+  const reply = (res: FastifyReplyLike, { status, body }: AdapterResult) =>
+    res.code(status).header('content-type', 'application/json').send(body)
+
+  const toRequest = (request: Req) => () =>
+    toFetchRequest(request.raw, { url: request.url, body: request.body })
+
+  return {
+    push: async (request: Req, res: FastifyReplyLike) =>
+      reply(res, await handle('push', zeroServer, options, request, toRequest(request))),
+    pull: async (request: Req, res: FastifyReplyLike) =>
+      reply(res, await handle('pull', zeroServer, options, request, toRequest(request))),
+  }
+}
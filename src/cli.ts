@@ -4,6 +4,7 @@ import { resolve } from 'node:path'
 import { defineCommand, runMain } from 'citty'
 
 import { generate, watch } from './generate'
+import { migrate } from './migrate'
 
 const generateCommand = defineCommand({
   meta: {
@@ -42,6 +43,45 @@ const generateCommand = defineCommand({
   },
 })
 
+const migrateCommand = defineCommand({
+  meta: {
+    name: 'migrate',
+    description: 'Generate SQL migrations from model schemas',
+  },
+  args: {
+    dir: {
+      type: 'positional',
+      description: 'Base directory (defaults to src/data)',
+      required: false,
+      default: 'src/data',
+    },
+    name: {
+      type: 'string',
+      description: 'Migration name, appended to the timestamp',
+      required: false,
+    },
+    out: {
+      type: 'string',
+      description: 'Migrations directory (defaults to <dir>/migrations)',
+      required: false,
+    },
+    database: {
+      type: 'string',
+      description: 'Diff against this database instead of the last snapshot',
+      required: false,
+    },
+  },
+
+  async run({ args }) {
+    await migrate({
+      dir: resolve(args.dir),
+      name: args.name,
+      out: args.out,
+      database: args.database,
+    })
+  },
+})
+
 const main = defineCommand({
   meta: {
     name: 'on-zero',
@@ -49,6 +89,7 @@ const main = defineCommand({
   },
   subCommands: {
     generate: generateCommand,
+    migrate: migrateCommand,
   },
 })
 
@@ -0,0 +1,153 @@
+import { describe, expect, test, vi } from 'vitest'
+
+import { createDatabase, dummyTransactionInput } from './createDatabase'
+
+const { FakePool, pools } = vi.hoisted(() => {
+  const pools: FakePool[] = []
+
+  class FakePool {
+    queries: [string, unknown[]][] = []
+    ended = false
+    totalCount = 3
+    idleCount = 2
+    waitingCount = 1
+
+    constructor(public config: Record<string, any>) {
+      pools.push(this)
+    }
+
+    on() {}
+
+    async query(text: string, params: unknown[]) {
+      this.queries.push([text, params])
+      return { rows: [{ ok: 1 }] }
+    }
+
+    async end() {
+      this.ended = true
+    }
+  }
+
+  return { FakePool, pools }
+})
+
+vi.mock('pg', () => ({ Pool: FakePool }))
+
+// the real adapter imports pg outside of vitest's module graph
+vi.mock('@rocicorp/zero/server/adapters/pg', () => ({
+  zeroNodePg: (_schema: unknown, pool: unknown) => ({ pool }),
+  NodePgTransactionInternal: class {
+    constructor(public client: { query: (sql: string) => Promise<{ rows: any[] }> }) {}
+    async query(sql: string) {
+      return (await this.client.query(sql)).rows
+    }
+  },
+}))
+
+const schema = { tables: {}, relationships: {} } as any
+
+function lastPool() {
+  return pools[pools.length - 1]!
+}
+
+describe('createDatabase', () => {
+  test('creates a pool from a connection string and ends it', async () => {
+    const db = createDatabase({
+      schema,
+      database: 'postgres://localhost/app',
+      pool: { max: 4, statementTimeoutMs: 5000 },
+    })
+    const pool = lastPool()
+
+    expect(pool.config).toMatchObject({ max: 4, statement_timeout: 5000 })
+    expect(await db.query('select 1', [])).toEqual([{ ok: 1 }])
+    expect(pool.queries).toEqual([['select 1', []]])
+    expect(db.stats()).toEqual({ total: 3, idle: 2, waiting: 1 })
+
+    await db.end()
+    expect(pool.ended).toBe(true)
+  })
+
+  test('escapes search_path so it stays a single startup option', () => {
+    createDatabase({
+      schema,
+      database: 'postgres://localhost/app',
+      pool: { searchPath: 'org a, public -c role=admin\\' },
+    })
+
+    expect(lastPool().config.options).toBe(
+      '-c search_path=org\\ a,\\ public\\ -c\\ role=admin\\\\'
+    )
+  })
+
+  test('defaults ssl verification from the connection', () => {
+    createDatabase({ schema, database: 'postgres://host/app?sslmode=require' })
+    expect(lastPool().config.ssl).toEqual({ rejectUnauthorized: false })
+
+    createDatabase({ schema, database: 'postgres://host/app' })
+    expect(lastPool().config.ssl).toBeUndefined()
+
+    createDatabase({
+      schema,
+      database: 'postgres://host/app',
+      pool: { ssl: { ca: 'PEM' } },
+    })
+    expect(lastPool().config.ssl).toEqual({ ca: 'PEM', rejectUnauthorized: true })
+
+    createDatabase({
+      schema,
+      database: 'postgres://host/app',
+      pool: { ssl: { ca: 'PEM', rejectUnauthorized: false } },
+    })
+    expect(lastPool().config.ssl).toEqual({ ca: 'PEM', rejectUnauthorized: false })
+  })
+
+  test('leaves caller-owned pools open', async () => {
+    const pool = new FakePool({})
+    const db = createDatabase({ schema, db: { type: 'pg', pool: pool as any } })
+
+    await db.end()
+    expect(pool.ended).toBe(false)
+  })
+
+  test('runs pglite transactions through the node-postgres wrapper', async () => {
+    const ran: string[] = []
+    const client = {
+      query: async (sql: string) => {
+        ran.push(sql)
+        return { rows: [{ sql }] }
+      },
+    }
+    const db = createDatabase({
+      schema,
+      db: {
+        type: 'pglite',
+        db: { ...client, transaction: (fn) => fn(client) },
+      },
+    })
+
+    expect(await db.query('select 2')).toEqual([{ sql: 'select 2' }])
+    await db.zeroDb.transaction(
+      (tx: any) => tx.dbTransaction.query('insert into t default values', []),
+      dummyTransactionInput
+    )
+    expect(ran).toEqual(['select 2', 'insert into t default values'])
+  })
+
+  test('runs custom adapter queries in a transaction and closes it', async () => {
+    const close = vi.fn(async () => {})
+    const transaction = vi.fn(async (fn: (tx: any) => Promise<unknown>) =>
+      fn({ dbTransaction: { query: async () => [{ id: 1 }] } })
+    )
+    const db = createDatabase({
+      schema,
+      db: { type: 'custom', database: { transaction } as any, close },
+    })
+
+    expect(await db.query('select id from t')).toEqual([{ id: 1 }])
+    expect(transaction).toHaveBeenCalledTimes(1)
+
+    await db.end()
+    expect(close).toHaveBeenCalledTimes(1)
+  })
+})
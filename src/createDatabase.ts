@@ -0,0 +1,225 @@
+import { ZQLDatabase } from '@rocicorp/zero/server'
+import { NodePgTransactionInternal, zeroNodePg } from '@rocicorp/zero/server/adapters/pg'
+import { zeroPostgresJS } from '@rocicorp/zero/server/adapters/postgresjs'
+import { Pool } from 'pg'
+
+import type { Schema as ZeroSchema } from '@rocicorp/zero'
+import type {
+  Database,
+  DBConnection,
+  DBTransaction,
+  TransactionProviderInput,
+} from '@rocicorp/zero/server'
+import type postgres from 'postgres'
+
+/**
+ * Tuning for pools that on-zero creates itself from a connection string.
+ * Pre-built pools passed in via `db` are used as-is.
+ */
+export type PoolOptions = {
+  /** max connections in the pool */
+  max?: number
+  /** close connections idle for longer than this */
+  idleTimeoutMs?: number
+  /** fail if a connection can't be acquired in time */
+  connectionTimeoutMs?: number
+  /** postgres statement_timeout applied to every connection */
+  statementTimeoutMs?: number
+  /** postgres search_path applied to every connection, e.g. a tenant's schema */
+  searchPath?: string
+  ssl?: {
+    /** custom CA certificate (PEM) */
+    ca?: string
+    rejectUnauthorized?: boolean
+  }
+}
+
+// minimal shape of a PGlite instance so we don't depend on @electric-sql/pglite
+export type PGliteLike = {
+  query: (sql: string, params?: unknown[]) => Promise<{ rows: any[] }>
+  transaction: <T>(
+    fn: (tx: {
+      query: (sql: string, params?: unknown[]) => Promise<{ rows: any[] }>
+    }) => Promise<T>
+  ) => Promise<T>
+  close?: () => Promise<void>
+}
+
+/**
+ * Where createZeroServer gets its database connection from:
+ * - 'pg': an existing node-postgres Pool
+ * - 'postgres': a postgres.js client
+ * - 'pglite': an in-process PGlite instance (tests, CI)
+ * - 'custom': any Zero `Database` that accepts a TransactionProviderInput
+ *
+ * Clients passed in are owned by the caller and are not closed by on-zero.
+ */
+export type DatabaseAdapter =
+  | { type: 'pg'; pool: Pool }
+  | { type: 'postgres'; sql: postgres.Sql<any> }
+  | { type: 'pglite'; db: PGliteLike }
+  | {
+      type: 'custom'
+      database: Database<any>
+      close?: () => Promise<void>
+    }
+
+export type PoolStats = {
+  total: number
+  idle: number
+  waiting: number
+}
+
+export type ResolvedDatabase = {
+  zeroDb: Database<any>
+  /** raw sql outside of any zero transaction */
+  query: (sql: string, params?: unknown[]) => Promise<Record<string, unknown>[]>
+  /** pool usage, null when the underlying client doesn't expose it */
+  stats: () => PoolStats | null
+  /** ends connections on-zero created, no-op for caller-owned clients */
+  end: () => Promise<void>
+}
+
+// This is needed temporarily and will be cleaned up in the future.
+export const dummyTransactionInput: TransactionProviderInput = {
+  clientGroupID: 'unused',
+  clientID: 'unused',
+  mutationID: 42,
+  upstreamSchema: 'unused',
+}
+
+export function createDatabase({
+  schema,
+  database,
+  db,
+  pool: poolOptions = {},
+  onPoolError,
+}: {
+  schema: ZeroSchema
+  database?: string
+  db?: DatabaseAdapter
+  pool?: PoolOptions
+  onPoolError?: (kind: 'pool' | 'client', error: Error) => void
+}): ResolvedDatabase {
+  if (db) {
+    return fromAdapter(schema, db)
+  }
+
+  if (!database) {
+    throw new Error(`createZeroServer requires either "database" or "db"`)
+  }
+
+  const pool = new Pool({
+    connectionString: database,
+    max: poolOptions.max,
+    idleTimeoutMillis: poolOptions.idleTimeoutMs,
+    connectionTimeoutMillis: poolOptions.connectionTimeoutMs,
+    statement_timeout: poolOptions.statementTimeoutMs,
+    options: poolOptions.searchPath
+      ? `-c search_path=${escapeStartupOption(poolOptions.searchPath)}`
+      : undefined,
+    ssl: getSSLConfig(database, poolOptions.ssl),
+  })
+
+  // prevent unhandled 'error' events from crashing the process
+  // when postgres kills idle-in-transaction connections
+  pool.on('error', (error) => {
+    onPoolError?.('pool', error)
+  })
+  pool.on('connect', (client) => {
+    client.on('error', (error) => {
+      onPoolError?.('client', error)
+    })
+  })
+
+  return {
+    ...fromPool(schema, pool),
+    end: () => pool.end(),
+  }
+}
+
+// libpq splits startup options on whitespace, backslash escapes keep the
+// value as one argument so it can't add flags of its own
+function escapeStartupOption(value: string) {
+  return value.replace(/[\\\s]/g, (char) => `\\${char}`)
+}
+
+function getSSLConfig(database: string, ssl: PoolOptions['ssl']) {
+  if (ssl) {
+    return {
+      ca: ssl.ca,
+      rejectUnauthorized: ssl.rejectUnauthorized ?? Boolean(ssl.ca),
+    }
+  }
+  // handle self-signed certificates in production
+  if (database.includes('sslmode=require')) {
+    return { rejectUnauthorized: false }
+  }
+  return undefined
+}
+
+function fromAdapter(schema: ZeroSchema, adapter: DatabaseAdapter): ResolvedDatabase {
+  switch (adapter.type) {
+    case 'pg': {
+      return fromPool(schema, adapter.pool)
+    }
+
+    case 'postgres': {
+      const { sql } = adapter
+      return {
+        zeroDb: zeroPostgresJS(schema, sql),
+        query: async (text, params = []) => [
+          ...(await sql.unsafe(text, params as any[])),
+        ],
+        stats: () => null,
+        end: async () => {},
+      }
+    }
+
+    case 'pglite': {
+      const { db } = adapter
+      const connection: DBConnection<unknown> = {
+        transaction: (fn) =>
+          db.transaction((tx) =>
+            // pglite results have the same { rows } shape as node-postgres
+            fn(new NodePgTransactionInternal(tx as any) as DBTransaction<unknown>)
+          ),
+      }
+      return {
+        zeroDb: new ZQLDatabase(connection, schema),
+        query: async (text, params = []) => (await db.query(text, params)).rows,
+        stats: () => null,
+        end: async () => {},
+      }
+    }
+
+    case 'custom': {
+      const { database } = adapter
+      return {
+        zeroDb: database,
+        query: (text, params = []) =>
+          database.transaction(
+            async (tx: any) => [...(await tx.dbTransaction.query(text, params))],
+            dummyTransactionInput
+          ),
+        stats: () => null,
+        end: async () => {
+          await adapter.close?.()
+        },
+      }
+    }
+  }
+}
+
+function fromPool(schema: ZeroSchema, pool: Pool): ResolvedDatabase {
+  return {
+    zeroDb: zeroNodePg(schema, pool),
+    query: async (text, params = []) => (await pool.query(text, params)).rows,
+    stats: () => ({
+      total: pool.totalCount,
+      idle: pool.idleCount,
+      waiting: pool.waitingCount,
+    }),
+    end: async () => {},
+  }
+}
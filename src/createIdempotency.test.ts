@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'vitest'
+
+import { createIdempotency } from './createIdempotency'
+
+type Row = { model: string; mutator: string; result: unknown; expiresAt: number }
+
+// fake transaction backed by a map, answers the three statements idempotency runs
+function createFakeStore() {
+  const rows = new Map<string, Row>()
+  let now = 0
+
+  const tx = {
+    dbTransaction: {
+      async query(sql: string, params: any[]) {
+        if (sql.startsWith('INSERT')) {
+          const [key, model, mutator, ttlMs] = params
+          const existing = rows.get(key)
+          if (existing && existing.expiresAt > now) return []
+          rows.set(key, { model, mutator, result: null, expiresAt: now + ttlMs })
+          return [{ key }]
+        }
+        if (sql.startsWith('SELECT')) {
+          const row = rows.get(params[0])
+          return row ? [row] : []
+        }
+        if (sql.startsWith('UPDATE')) {
+          rows.get(params[0])!.result = JSON.parse(params[1])
+          return []
+        }
+        throw new Error(`unexpected sql: ${sql}`)
+      },
+    },
+  } as any
+
+  return {
+    tx,
+    rows,
+    advance: (ms: number) => {
+      now += ms
+    },
+  }
+}
+
+const sendMessage = { model: 'message', mutator: 'send' }
+
+describe('createIdempotency', () => {
+  const idempotency = createIdempotency({ database: {} as any, ttlMs: 1000 })
+
+  test('runs the first claim and replays the stored result after', async () => {
+    const { tx } = createFakeStore()
+
+    expect(await idempotency.claim(tx, 'k1', sendMessage)).toEqual({ replay: false })
+    await idempotency.complete(tx, 'k1', { id: 'm1' })
+
+    expect(await idempotency.claim(tx, 'k1', sendMessage)).toEqual({
+      replay: true,
+      result: { id: 'm1' },
+    })
+  })
+
+  test('keeps void and null results apart on replay', async () => {
+    const { tx } = createFakeStore()
+
+    await idempotency.claim(tx, 'void', sendMessage)
+    await idempotency.complete(tx, 'void', undefined)
+    await idempotency.claim(tx, 'null', sendMessage)
+    await idempotency.complete(tx, 'null', null)
+
+    expect(await idempotency.claim(tx, 'void', sendMessage)).toEqual({
+      replay: true,
+      result: undefined,
+    })
+    expect(await idempotency.claim(tx, 'null', sendMessage)).toEqual({
+      replay: true,
+      result: null,
+    })
+  })
+
+  test('takes over expired keys', async () => {
+    const { tx, advance } = createFakeStore()
+
+    await idempotency.claim(tx, 'k1', sendMessage)
+    await idempotency.complete(tx, 'k1', 'first')
+    advance(1000)
+
+    expect(await idempotency.claim(tx, 'k1', sendMessage)).toEqual({ replay: false })
+  })
+
+  test('rejects a key reused for another mutator', async () => {
+    const { tx } = createFakeStore()
+
+    await idempotency.claim(tx, 'k1', sendMessage)
+
+    await expect(
+      idempotency.claim(tx, 'k1', { model: 'message', mutator: 'delete' })
+    ).rejects.toThrow('key "k1" was already used for message.send')
+  })
+
+  test('only works inside a server transaction', async () => {
+    await expect(idempotency.claim({} as any, 'k1', sendMessage)).rejects.toThrow(
+      'inside a server transaction'
+    )
+  })
+})
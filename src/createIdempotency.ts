@@ -0,0 +1,132 @@
+import { quoteIdent } from './helpers/quoteIdent'
+
+import type { ResolvedDatabase } from './createDatabase'
+import type { Transaction } from './types'
+
+export type IdempotencyOptions = {
+  /** table that stores keys, defaults to on_zero_idempotency */
+  table?: string
+  /** how long a key is remembered, defaults to 24 hours */
+  ttlMs?: number
+}
+
+export type IdempotencyClaim = { replay: false } | { replay: true; result: unknown }
+
+export type Idempotency = ReturnType<typeof createIdempotency>
+
+export function createIdempotency({
+  database,
+  table = 'on_zero_idempotency',
+  ttlMs = 24 * 60 * 60_000,
+}: IdempotencyOptions & {
+  database: ResolvedDatabase
+}) {
+  const tableName = quoteIdent(table)
+
+  const createTableStatements = [
+    `CREATE TABLE IF NOT EXISTS ${tableName} (
+  "key" text PRIMARY KEY,
+  "model" text NOT NULL,
+  "mutator" text NOT NULL,
+  "result" jsonb,
+  "createdAt" timestamptz NOT NULL DEFAULT now(),
+  "expiresAt" timestamptz NOT NULL
+)`,
+    `CREATE INDEX IF NOT EXISTS ${quoteIdent(`${table.split('.').pop()}_expires_at`)}
+  ON ${tableName} ("expiresAt")`,
+  ]
+
+  // for adding the table through your own migrations instead of createTable()
+  const createTableSQL = createTableStatements.map((s) => `${s};\n`).join('')
+
+  async function createTable() {
+    for (const statement of createTableStatements) {
+      await database.query(statement)
+    }
+  }
+
+  function getDbTransaction(tx: Transaction) {
+    const dbTransaction = (tx as any).dbTransaction
+    if (!dbTransaction) {
+      throw new Error(`[idempotency] keys can only be used inside a server transaction`)
+    }
+    return dbTransaction as {
+      query: (sql: string, params: unknown[]) => Promise<Iterable<Record<string, any>>>
+    }
+  }
+
+  /**
+   * Records the key in the mutation's transaction. A concurrent call with the
+   * same key waits on the row lock, then replays once this one commits or
+   * runs itself if this one rolled back. Expired keys are taken over.
+   */
+  async function claim(
+    tx: Transaction,
+    key: string,
+    { model, mutator }: { model: string; mutator: string }
+  ): Promise<IdempotencyClaim> {
+    const dbTransaction = getDbTransaction(tx)
+
+    const inserted = [
+      ...(await dbTransaction.query(
+        `INSERT INTO ${tableName} AS existing ("key", "model", "mutator", "expiresAt")
+         VALUES ($1, $2, $3, now() + $4 * interval '1 millisecond')
+         ON CONFLICT ("key") DO UPDATE SET
+           "model" = EXCLUDED."model",
+           "mutator" = EXCLUDED."mutator",
+           "result" = NULL,
+           "createdAt" = now(),
+           "expiresAt" = EXCLUDED."expiresAt"
+         WHERE existing."expiresAt" <= now()
+         RETURNING "key"`,
+        [key, model, mutator, ttlMs]
+      )),
+    ]
+
+    if (inserted.length) {
+      return { replay: false }
+    }
+
+    const [row] = [
+      ...(await dbTransaction.query(
+        `SELECT "model", "mutator", "result" FROM ${tableName} WHERE "key" = $1`,
+        [key]
+      )),
+    ]
+
+    if (row && (row.model !== model || row.mutator !== mutator)) {
+      throw new Error(
+        `[idempotency] key "${key}" was already used for ${row.model}.${row.mutator}`
+      )
+    }
+
+    return { replay: true, result: row?.result?.value }
+  }
+
+  /**
+   * Stores the mutator's return value so replays resolve with it too. It's
+   * wrapped in `{ value }` so a void mutator replays undefined, not null.
+   */
+  async function complete(tx: Transaction, key: string, result: unknown) {
+    await getDbTransaction(tx).query(
+      `UPDATE ${tableName} SET "result" = $2 WHERE "key" = $1`,
+      [key, JSON.stringify(result === undefined ? {} : { value: result })]
+    )
+  }
+
+  // expired keys are ignored already, this just keeps the table small
+  async function purgeExpired() {
+    const rows = await database.query(
+      `DELETE FROM ${tableName} WHERE "expiresAt" <= now() RETURNING "key"`
+    )
+    return rows.length
+  }
+
+  return {
+    createTable,
+    createTableSQL,
+    claim,
+    complete,
+    purgeExpired,
+  }
+}
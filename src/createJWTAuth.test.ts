@@ -0,0 +1,106 @@
+import { createHmac, generateKeyPairSync, sign } from 'node:crypto'
+
+import { describe, expect, test } from 'vitest'
+
+import { createJWTAuth, JWTVerificationError } from './createJWTAuth'
+import { PermissionError } from './createPermissions'
+
+import type { KeyObject } from 'node:crypto'
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+function signToken(
+  claims: object,
+  {
+    alg,
+    key,
+    kid,
+  }: { alg: 'HS256' | 'RS256' | 'EdDSA'; key: string | KeyObject; kid?: string }
+) {
+  const data = `${encode({ alg, typ: 'JWT', kid })}.${encode(claims)}`
+  const signature =
+    alg === 'HS256'
+      ? createHmac('sha256', key as string)
+          .update(data)
+          .digest()
+      : sign(alg === 'RS256' ? 'sha256' : null, Buffer.from(data), key as KeyObject)
+  return `${data}.${signature.toString('base64url')}`
+}
+
+const inOneHour = () => Math.floor(Date.now() / 1000) + 3600
+
+describe('createJWTAuth', () => {
+  test('verifies HS256 and maps sub to id by default', async () => {
+    const auth = createJWTAuth({ secret: 'shh' })
+    const token = signToken(
+      { sub: 'u1', role: 'admin', exp: inOneHour() },
+      { alg: 'HS256', key: 'shh' }
+    )
+
+    const request = new Request('http://localhost', {
+      headers: { authorization: `Bearer ${token}` },
+    })
+
+    // role is never copied by default, it would bypass permissions
+    expect(await auth.getAuthData(request)).toEqual({ id: 'u1' })
+  })
+
+  test('returns null without a token', async () => {
+    const auth = createJWTAuth({ secret: 'shh' })
+    expect(await auth.getAuthData(new Request('http://localhost'))).toBeNull()
+    expect(await auth.getAuthData({ headers: {} })).toBeNull()
+  })
+
+  test('verifies RS256 and EdDSA keys from a JWKS by kid', async () => {
+    const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 })
+    const ed = generateKeyPairSync('ed25519')
+    const auth = createJWTAuth({
+      jwks: {
+        keys: [
+          { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rsa-1' },
+          { ...ed.publicKey.export({ format: 'jwk' }), kid: 'ed-1' },
+        ],
+      },
+      mapClaims: (claims) => ({ id: claims.sub, email: claims.email }),
+    })
+
+    const rsToken = signToken(
+      { sub: 'u1', email: 'a@b.c', exp: inOneHour() },
+      { alg: 'RS256', key: rsa.privateKey, kid: 'rsa-1' }
+    )
+    const edToken = signToken(
+      { sub: 'u2', exp: inOneHour() },
+      { alg: 'EdDSA', key: ed.privateKey, kid: 'ed-1' }
+    )
+
+    expect(await auth.getAuthData(rsToken)).toEqual({ id: 'u1', email: 'a@b.c' })
+    expect(await auth.getAuthData(edToken)).toMatchObject({ id: 'u2' })
+  })
+
+  test('rejects bad signatures, expiry, audience and issuer', async () => {
+    const auth = createJWTAuth({ secret: 'shh', audience: 'app', issuer: 'https://auth' })
+    const valid = { sub: 'u1', aud: 'app', iss: 'https://auth', exp: inOneHour() }
+    const reasonFor = (claims: object, key = 'shh') =>
+      auth
+        .verify(signToken(claims, { alg: 'HS256', key }))
+        .then(() => 'ok')
+        .catch((err: JWTVerificationError) => err.reason)
+
+    expect(await reasonFor(valid)).toBe('ok')
+    expect(await reasonFor(valid, 'wrong')).toBe('signature')
+    expect(await reasonFor({ ...valid, exp: 1000 })).toBe('expired')
+    expect(await reasonFor({ ...valid, exp: undefined })).toBe('missing-exp')
+    expect(await reasonFor({ ...valid, aud: ['other'] })).toBe('audience')
+    expect(await reasonFor({ ...valid, iss: 'https://evil' })).toBe('issuer')
+  })
+
+  test('rejects algorithms without a configured key, as a PermissionError', async () => {
+    const auth = createJWTAuth({ secret: 'shh' })
+    const ed = generateKeyPairSync('ed25519')
+    const token = signToken({ sub: 'u1' }, { alg: 'EdDSA', key: ed.privateKey })
+
+    const error = await auth.getAuthData(token).catch((err) => err)
+    expect(error).toBeInstanceOf(PermissionError)
+    expect(error.reason).toBe('algorithm')
+  })
+})
@@ -0,0 +1,289 @@
+import {
+  createHmac,
+  createPublicKey,
+  timingSafeEqual,
+  verify,
+  type KeyObject,
+} from 'node:crypto'
+import { readFileSync } from 'node:fs'
+
+import { PermissionError } from './createPermissions'
+
+import type { AuthData } from './types'
+import type { IncomingHttpHeaders } from 'node:http'
+
+export type JWTAlgorithm = 'HS256' | 'RS256' | 'EdDSA'
+
+export type JWTClaims = {
+  sub?: string
+  iss?: string
+  aud?: string | string[]
+  exp?: number
+  nbf?: number
+  iat?: number
+  [claim: string]: unknown
+}
+
+export type JWK = JsonWebKey & { kid?: string }
+
+export type JWTVerificationReason =
+  | 'malformed'
+  | 'algorithm'
+  | 'key'
+  | 'signature'
+  | 'expired'
+  | 'missing-exp'
+  | 'not-yet-valid'
+  | 'audience'
+  | 'issuer'
+
+/**
+ * Thrown for tokens that are present but invalid. Extends PermissionError so
+ * the push/pull adapters answer with a 403.
+ */
+export class JWTVerificationError extends PermissionError {
+  constructor(
+    public reason: JWTVerificationReason,
+    message: string
+  ) {
+    super(`[jwt] ${message}`)
+    this.name = 'JWTVerificationError'
+  }
+}
+
+export type JWTAuthOptions = {
+  /** shared secret for HS256 */
+  secret?: string | Uint8Array
+  /** PEM or KeyObject public key for RS256 / EdDSA (Ed25519) */
+  publicKey?: string | KeyObject
+  /** a JWKS object or a path to a JWKS json file, keys are picked by kid */
+  jwks?: { keys: JWK[] } | string
+  /** accepted algorithms, defaults to the ones your keys support */
+  algorithms?: JWTAlgorithm[]
+  audience?: string | string[]
+  issuer?: string | string[]
+  /** leeway for exp and nbf, defaults to 5 seconds */
+  clockToleranceSec?: number
+  /** reject tokens without an exp claim, defaults to true */
+  requireExp?: boolean
+  /**
+   * Map verified claims to your AuthData, return null to treat the token as
+   * anonymous. Defaults to `{ id: sub }`, other claims like `role` are only
+   * copied when you map them here since `role: 'admin'` bypasses permissions.
+   */
+  mapClaims?: (claims: JWTClaims) => AuthData | null | Promise<AuthData | null>
+}
+
+type RequestLike =
+  | Request
+  | { headers: Headers | IncomingHttpHeaders }
+  | string
+  | null
+  | undefined
+
+type VerificationKey = {
+  kid?: string
+  algorithm: JWTAlgorithm
+  key: KeyObject | Buffer
+}
+
+function decodeSegment(segment: string) {
+  return Buffer.from(segment, 'base64url')
+}
+
+function parseSegment(segment: string) {
+  try {
+    return JSON.parse(decodeSegment(segment).toString('utf8'))
+  } catch {
+    throw new JWTVerificationError('malformed', 'token is not valid JSON')
+  }
+}
+
+function getJWKAlgorithm(jwk: JWK): JWTAlgorithm | null {
+  if (jwk.alg === 'HS256' || jwk.alg === 'RS256' || jwk.alg === 'EdDSA') return jwk.alg
+  if (jwk.kty === 'RSA') return 'RS256'
+  if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') return 'EdDSA'
+  if (jwk.kty === 'oct') return 'HS256'
+  return null
+}
+
+function getKeyAlgorithm(key: KeyObject): JWTAlgorithm {
+  if (key.asymmetricKeyType === 'rsa') return 'RS256'
+  if (key.asymmetricKeyType === 'ed25519') return 'EdDSA'
+  throw new Error(`[jwt] unsupported public key type: ${key.asymmetricKeyType}`)
+}
+
+function toList<T>(value: T | T[] | undefined): T[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value]
+}
+
+function getBearerToken(request: RequestLike): string | null {
+  if (!request) return null
+  if (typeof request === 'string') return request
+
+  const header =
+    request.headers instanceof Headers
+      ? request.headers.get('authorization')
+      : request.headers.authorization
+
+  if (!header) return null
+  const [scheme, token] = header.split(' ')
+  return scheme?.toLowerCase() === 'bearer' && token ? token : null
+}
+
+/**
+ * Verifies HS256, RS256 and EdDSA JWTs and maps their claims to AuthData:
+ *
+ *   const auth = createJWTAuth({ jwks: './jwks.json', issuer: 'https://auth.app' })
+ *   const zero = createHonoAdapter(zeroServer, {
+ *     getAuthData: (c) => auth.getAuthData(c.req.raw),
+ *   })
+ *
+ * Requests without a token resolve to null (anonymous), invalid tokens throw
+ * a JWTVerificationError.
+ */
+export function createJWTAuth({
+  secret,
+  publicKey,
+  jwks,
+  algorithms,
+  audience,
+  issuer,
+  clockToleranceSec = 5,
+  requireExp = true,
+  mapClaims = ({ sub }) => (sub ? { id: sub } : null),
+}: JWTAuthOptions) {
+  let keys: VerificationKey[] | null = null
+
+  // loaded lazily so a missing JWKS file fails on first use, not at import
+  function getKeys() {
+    if (keys) return keys
+    keys = []
+
+    if (secret) {
+      keys.push({ algorithm: 'HS256', key: Buffer.from(secret) })
+    }
+
+    if (publicKey) {
+      const key = typeof publicKey === 'string' ? createPublicKey(publicKey) : publicKey
+      keys.push({ algorithm: getKeyAlgorithm(key), key })
+    }
+
+    if (jwks) {
+      const set: { keys: JWK[] } =
+        typeof jwks === 'string' ? JSON.parse(readFileSync(jwks, 'utf8')) : jwks
+      for (const jwk of set.keys) {
+        const algorithm = getJWKAlgorithm(jwk)
+        if (!algorithm) continue
+        keys.push({
+          kid: jwk.kid,
+          algorithm,
+          key:
+            algorithm === 'HS256'
+              ? decodeSegment(jwk.k as string)
+              : createPublicKey({ key: jwk, format: 'jwk' }),
+        })
+      }
+    }
+
+    if (!keys.length) {
+      throw new Error(`[jwt] createJWTAuth needs a secret, publicKey or jwks`)
+    }
+
+    return keys
+  }
+
+  function verifySignature(
+    { algorithm, key }: VerificationKey,
+    data: Buffer,
+    signature: Buffer
+  ) {
+    if (algorithm === 'HS256') {
+      const expected = createHmac('sha256', key as Buffer)
+        .update(data)
+        .digest()
+      return expected.length === signature.length && timingSafeEqual(expected, signature)
+    }
+    return verify(
+      algorithm === 'RS256' ? 'sha256' : null,
+      data,
+      key as KeyObject,
+      signature
+    )
+  }
+
+  /**
+   * Verifies the token and returns its claims, throws JWTVerificationError.
+   */
+  async function verifyToken(token: string): Promise<JWTClaims> {
+    const segments = token.split('.')
+    if (segments.length !== 3) {
+      throw new JWTVerificationError('malformed', 'token must have three segments')
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = segments as [
+      string,
+      string,
+      string,
+    ]
+
+    const header = parseSegment(encodedHeader) as { alg?: string; kid?: string }
+    const alg = header.alg as JWTAlgorithm
+
+    const candidates = getKeys().filter(
+      (k) => k.algorithm === alg && (!header.kid || !k.kid || k.kid === header.kid)
+    )
+    const allowed = algorithms ?? [...new Set(getKeys().map((k) => k.algorithm))]
+    if (!allowed.includes(alg)) {
+      throw new JWTVerificationError('algorithm', `algorithm ${header.alg} not allowed`)
+    }
+    if (!candidates.length) {
+      throw new JWTVerificationError('key', `no key for ${alg} kid ${header.kid}`)
+    }
+
+    const data = Buffer.from(`${encodedHeader}.${encodedPayload}`)
+    const signature = decodeSegment(encodedSignature)
+    if (!candidates.some((key) => verifySignature(key, data, signature))) {
+      throw new JWTVerificationError('signature', 'invalid signature')
+    }
+
+    const claims = parseSegment(encodedPayload) as JWTClaims
+    const now = Date.now() / 1000
+
+    if (requireExp && typeof claims.exp !== 'number') {
+      throw new JWTVerificationError('missing-exp', 'token has no exp claim')
+    }
+    if (typeof claims.exp === 'number' && now > claims.exp + clockToleranceSec) {
+      throw new JWTVerificationError('expired', 'token expired')
+    }
+    if (typeof claims.nbf === 'number' && now < claims.nbf - clockToleranceSec) {
+      throw new JWTVerificationError('not-yet-valid', 'token not valid yet')
+    }
+
+    const audiences = toList(audience)
+    if (audiences.length && !toList(claims.aud).some((aud) => audiences.includes(aud))) {
+      throw new JWTVerificationError('audience', `unexpected audience ${claims.aud}`)
+    }
+
+    const issuers = toList(issuer)
+    if (issuers.length && !issuers.includes(claims.iss as string)) {
+      throw new JWTVerificationError('issuer', `unexpected issuer ${claims.iss}`)
+    }
+
+    return claims
+  }
+
+  /**
+   * Reads the bearer token zero-cache forwards from ProvideZero's `auth` prop
+   * (or takes a raw token) and returns AuthData, null when there is no token.
+   */
+  async function getAuthData(request: RequestLike): Promise<AuthData | null> {
+    const token = getBearerToken(request)
+    if (!token) return null
+    return mapClaims(await verifyToken(token))
+  }
+
+  return {
+    verify: verifyToken,
+    getAuthData,
+  }
+}
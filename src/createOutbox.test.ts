@@ -0,0 +1,162 @@
+import { describe, expect, test, vi } from 'vitest'
+
+import { createOutbox } from './createOutbox'
+
+import type { ResolvedDatabase } from './createDatabase'
+
+type Respond = (sql: string, params: unknown[]) => Record<string, unknown>[]
+
+// fake database: records every statement and answers with `respond`
+function createFakeDatabase(respond: Respond = () => []) {
+  const queries: { sql: string; params: unknown[] }[] = []
+  const database: ResolvedDatabase = {
+    zeroDb: {} as any,
+    query: async (sql, params = []) => {
+      queries.push({ sql, params })
+      return respond(sql, params)
+    },
+    stats: () => null,
+    end: async () => {},
+  }
+  return { database, queries }
+}
+
+function jobRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    name: 'sendEmail',
+    payload: { to: 'a@b.c' },
+    authData: null,
+    status: 'running',
+    attempts: 1,
+    maxAttempts: 3,
+    lastError: null,
+    runAt: new Date(0),
+    createdAt: new Date(0),
+    ...overrides,
+  }
+}
+
+// answers the claim with `claimed` and the lease check with `expired`
+function respondWith({
+  claimed = [],
+  expired = [],
+}: {
+  claimed?: Record<string, unknown>[]
+  expired?: Record<string, unknown>[]
+}): Respond {
+  return (sql) => {
+    if (sql.includes(`SET "status" = 'running'`)) return claimed
+    if (sql.includes(`lock expired`)) return expired
+    return []
+  }
+}
+
+describe('createOutbox', () => {
+  test('enqueues inside the mutation transaction so it commits with it', async () => {
+    const { database, queries } = createFakeDatabase()
+    const outbox = createOutbox({ database, jobs: { sendEmail: async () => {} } })
+
+    const txQueries: unknown[][] = []
+    const tx = {
+      dbTransaction: { query: async (...args: unknown[]) => txQueries.push(args) },
+    }
+
+    await outbox.enqueue(tx as any, 'sendEmail', { to: 'a@b.c' }, { delayMs: 500 })
+
+    expect(queries).toEqual([])
+    expect(txQueries).toHaveLength(1)
+    expect(txQueries[0]![0]).toContain('INSERT INTO "on_zero_outbox"')
+    expect(txQueries[0]![1]).toEqual(['sendEmail', '{"to":"a@b.c"}', 'null', 5, 500])
+
+    await expect(outbox.enqueue(tx as any, 'unknown', null)).rejects.toThrow(
+      'no job registered with name: unknown'
+    )
+    await expect(outbox.enqueue({} as any, 'sendEmail', null)).rejects.toThrow(
+      'inside a server transaction'
+    )
+  })
+
+  test('claims due jobs with skip locked and marks them done', async () => {
+    const { database, queries } = createFakeDatabase(respondWith({ claimed: [jobRow()] }))
+    const handler = vi.fn(async () => {})
+    const outbox = createOutbox({ database, jobs: { sendEmail: handler } })
+
+    const summary = await outbox.runPending({ limit: 5 })
+
+    expect(summary).toEqual({ processed: 1, succeeded: 1, retried: 0, dead: 0 })
+    expect(handler).toHaveBeenCalledWith(
+      { to: 'a@b.c' },
+      { jobId: '1', attempt: 1, authData: null }
+    )
+
+    const claim = queries.find((q) => q.sql.includes(`SET "status" = 'running'`))!
+    expect(claim.sql).toContain('FOR UPDATE SKIP LOCKED')
+    // expired leases are only taken over while attempts remain
+    expect(claim.sql).toContain(`"attempts" < "maxAttempts"`)
+    expect(claim.params).toEqual([5, 5 * 60_000])
+    expect(queries.at(-1)!.sql).toContain(`SET "status" = 'done'`)
+  })
+
+  test('backs off exponentially up to maxMs', async () => {
+    const delays: unknown[] = []
+    let attempts = 1
+    const { database } = createFakeDatabase((sql, params) => {
+      if (sql.includes(`SET "status" = 'pending'`)) delays.push(params[2])
+      return respondWith({ claimed: [jobRow({ attempts, maxAttempts: 10 })] })(
+        sql,
+        params
+      )
+    })
+    const outbox = createOutbox({
+      database,
+      jobs: {
+        sendEmail: async () => {
+          throw new Error('smtp down')
+        },
+      },
+      backoff: { baseMs: 100, maxMs: 500 },
+    })
+
+    for (; attempts <= 4; attempts++) {
+      expect((await outbox.runPending()).retried).toBe(1)
+    }
+
+    expect(delays).toEqual([100, 200, 400, 500])
+  })
+
+  test('dead-letters jobs out of attempts, including expired leases', async () => {
+    const { database, queries } = createFakeDatabase(
+      respondWith({
+        claimed: [jobRow({ attempts: 3 })],
+        expired: [jobRow({ id: 2, attempts: 3, status: 'dead' })],
+      })
+    )
+    const outbox = createOutbox({
+      database,
+      jobs: {
+        sendEmail: async () => {
+          throw new Error('smtp down')
+        },
+      },
+    })
+
+    const summary = await outbox.runPending()
+
+    expect(summary).toEqual({ processed: 1, succeeded: 0, retried: 0, dead: 2 })
+    const dead = queries.at(-1)!
+    expect(dead.sql).toContain(`SET "status" = 'dead'`)
+    expect(dead.params[0]).toBe('1')
+    expect(dead.params[1]).toContain('smtp down')
+  })
+
+  test('retry resets attempts and clears the last error', async () => {
+    const { database, queries } = createFakeDatabase()
+    const outbox = createOutbox({ database, jobs: {} })
+
+    await outbox.retry('7')
+
+    expect(queries[0]!.sql).toContain(`"attempts" = 0, "lastError" = NULL`)
+    expect(queries[0]!.params).toEqual(['7'])
+  })
+})
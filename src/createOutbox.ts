@@ -0,0 +1,327 @@
+import { runWithAuthScope } from './helpers/mutatorContext'
+import { quoteIdent } from './helpers/quoteIdent'
+import { getLogger } from './logger'
+
+import type { ResolvedDatabase } from './createDatabase'
+import type { AuthData, OutboxEnqueueOptions, Transaction } from './types'
+
+export type OutboxJobContext = {
+  jobId: string
+  attempt: number
+  authData: AuthData | null
+}
+
+export type OutboxJobHandler = (payload: any, ctx: OutboxJobContext) => Promise<void>
+
+export type OutboxOptions = {
+  /** named job handlers, `ctx.server.outbox.enqueue(name, payload)` runs these */
+  jobs: Record<string, OutboxJobHandler>
+  /** table that stores jobs, defaults to on_zero_outbox */
+  table?: string
+  /** attempts before a job is moved to the dead-letter state, defaults to 5 */
+  maxAttempts?: number
+  /** exponential backoff between attempts */
+  backoff?: { baseMs?: number; maxMs?: number }
+  /** running jobs older than this are assumed crashed and picked up again */
+  lockTimeoutMs?: number
+}
+
+export type OutboxJobStatus = 'pending' | 'running' | 'done' | 'dead'
+
+export type OutboxJob = {
+  id: string
+  name: string
+  payload: unknown
+  authData: AuthData | null
+  status: OutboxJobStatus
+  attempts: number
+  maxAttempts: number
+  lastError: string | null
+  runAt: Date
+  createdAt: Date
+}
+
+export type OutboxRunSummary = {
+  processed: number
+  succeeded: number
+  retried: number
+  dead: number
+}
+
+export type Outbox = ReturnType<typeof createOutbox>
+
+export function createOutbox({
+  database,
+  jobs,
+  table = 'on_zero_outbox',
+  maxAttempts: defaultMaxAttempts = 5,
+  backoff: { baseMs = 1_000, maxMs = 5 * 60_000 } = {},
+  lockTimeoutMs = 5 * 60_000,
+}: OutboxOptions & {
+  database: ResolvedDatabase
+}) {
+  const tableName = quoteIdent(table)
+  const workers = new Set<{ stop: () => Promise<void> }>()
+
+  const createTableStatements = [
+    `CREATE TABLE IF NOT EXISTS ${tableName} (
+  "id" bigserial PRIMARY KEY,
+  "name" text NOT NULL,
+  "payload" jsonb,
+  "authData" jsonb,
+  "status" text NOT NULL DEFAULT 'pending',
+  "attempts" integer NOT NULL DEFAULT 0,
+  "maxAttempts" integer NOT NULL,
+  "lastError" text,
+  "runAt" timestamptz NOT NULL DEFAULT now(),
+  "lockedAt" timestamptz,
+  "createdAt" timestamptz NOT NULL DEFAULT now()
+)`,
+    `CREATE INDEX IF NOT EXISTS ${quoteIdent(`${table.split('.').pop()}_status_run_at`)}
+  ON ${tableName} ("status", "runAt")`,
+  ]
+
+  // for adding the table through your own migrations instead of createTable()
+  const createTableSQL = createTableStatements.map((s) => `${s};\n`).join('')
+
+  async function createTable() {
+    for (const statement of createTableStatements) {
+      await database.query(statement)
+    }
+  }
+
+  /**
+   * Writes the job using the mutation's own transaction so it only exists if
+   * the mutation commits.
+   */
+  async function enqueue(
+    tx: Transaction,
+    name: string,
+    payload: unknown,
+    {
+      authData = null,
+      delayMs = 0,
+      maxAttempts = defaultMaxAttempts,
+    }: OutboxEnqueueOptions & {
+      authData?: AuthData | null
+    } = {}
+  ) {
+    if (!jobs[name]) {
+      throw new Error(`[outbox] no job registered with name: ${name}`)
+    }
+
+    const dbTransaction = (tx as any).dbTransaction
+    if (!dbTransaction) {
+      throw new Error(`[outbox] enqueue can only run inside a server transaction`)
+    }
+
+    await dbTransaction.query(
+      `INSERT INTO ${tableName} ("name", "payload", "authData", "maxAttempts", "runAt")
+       VALUES ($1, $2::jsonb, $3::jsonb, $4, now() + $5 * interval '1 millisecond')`,
+      [
+        name,
+        JSON.stringify(payload ?? null),
+        JSON.stringify(authData),
+        maxAttempts,
+        delayMs,
+      ]
+    )
+  }
+
+  async function claim(limit: number) {
+    const rows = await database.query(
+      `UPDATE ${tableName} SET "status" = 'running', "attempts" = "attempts" + 1, "lockedAt" = now()
+       WHERE "id" IN (
+         SELECT "id" FROM ${tableName}
+         WHERE ("status" = 'pending' AND "runAt" <= now())
+            OR ("status" = 'running' AND "lockedAt" < now() - $2 * interval '1 millisecond'
+                AND "attempts" < "maxAttempts")
+         ORDER BY "runAt"
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit, lockTimeoutMs]
+    )
+    return rows.map(toJob)
+  }
+
+  // jobs whose lease expired on their last attempt crashed the worker every
+  // time, running them again would go past maxAttempts
+  async function deadLetterExpired() {
+    const rows = await database.query(
+      `UPDATE ${tableName}
+       SET "status" = 'dead', "lockedAt" = NULL,
+           "lastError" = coalesce("lastError", 'lock expired after ' || "attempts" || ' attempts')
+       WHERE "id" IN (
+         SELECT "id" FROM ${tableName}
+         WHERE "status" = 'running' AND "lockedAt" < now() - $1 * interval '1 millisecond'
+           AND "attempts" >= "maxAttempts"
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [lockTimeoutMs]
+    )
+    const jobs = rows.map(toJob)
+    for (const job of jobs) {
+      getLogger().error(
+        { job: job.name, jobId: job.id, attempts: job.attempts },
+        `[outbox] ${job.name} (${job.id}) dead, lock expired after ${job.attempts} attempts`
+      )
+    }
+    return jobs
+  }
+
+  async function runJob(job: OutboxJob): Promise<'succeeded' | 'retried' | 'dead'> {
+    const handler = jobs[job.name]
+
+    try {
+      if (!handler) {
+        throw new Error(`no job registered with name: ${job.name}`)
+      }
+      await runWithAuthScope(job.authData, () =>
+        handler(job.payload, {
+          jobId: job.id,
+          attempt: job.attempts,
+          authData: job.authData,
+        })
+      )
+      await database.query(
+        `UPDATE ${tableName} SET "status" = 'done', "lockedAt" = NULL, "lastError" = NULL WHERE "id" = $1`,
+        [job.id]
+      )
+      return 'succeeded'
+    } catch (err) {
+      const lastError = err instanceof Error ? err.stack || err.message : String(err)
+
+      if (job.attempts >= job.maxAttempts) {
+        getLogger().error(
+          { job: job.name, jobId: job.id, attempts: job.attempts, err },
+          `[outbox] ${job.name} (${job.id}) dead after ${job.attempts} attempts`
+        )
+        await database.query(
+          `UPDATE ${tableName} SET "status" = 'dead', "lockedAt" = NULL, "lastError" = $2 WHERE "id" = $1`,
+          [job.id, lastError]
+        )
+        return 'dead'
+      }
+
+      const delay = Math.min(maxMs, baseMs * 2 ** (job.attempts - 1))
+      getLogger().warn(
+        { job: job.name, jobId: job.id, attempts: job.attempts, err },
+        `[outbox] ${job.name} (${job.id}) failed, retrying in ${delay}ms`
+      )
+      await database.query(
+        `UPDATE ${tableName}
+         SET "status" = 'pending', "lockedAt" = NULL, "lastError" = $2,
+             "runAt" = now() + $3 * interval '1 millisecond'
+         WHERE "id" = $1`,
+        [job.id, lastError, delay]
+      )
+      return 'retried'
+    }
+  }
+
+  /**
+   * Claims and runs due jobs once. Safe to call from several workers at once.
+   */
+  async function runPending({ limit = 10 }: { limit?: number } = {}) {
+    const summary: OutboxRunSummary = { processed: 0, succeeded: 0, retried: 0, dead: 0 }
+    summary.dead += (await deadLetterExpired()).length
+    const claimed = await claim(limit)
+
+    for (const job of claimed) {
+      const outcome = await runJob(job)
+      summary.processed++
+      summary[outcome]++
+    }
+
+    return summary
+  }
+
+  /**
+   * Polls for due jobs until the returned stop() is called.
+   */
+  function start({
+    intervalMs = 1_000,
+    limit = 10,
+  }: { intervalMs?: number; limit?: number } = {}) {
+    let stopped = false
+    let timer: ReturnType<typeof setTimeout> | null = null
+    let current: Promise<OutboxRunSummary | void> | null = null
+
+    const tick = async () => {
+      if (stopped) return
+      current = runPending({ limit }).catch((err) => {
+        getLogger().error({ err }, `[outbox] worker failed`)
+      })
+      const summary = await current
+      current = null
+      if (stopped) return
+      // keep draining without waiting while there is a backlog
+      const hasMore = summary && summary.processed === limit
+      timer = setTimeout(tick, hasMore ? 0 : intervalMs)
+    }
+
+    timer = setTimeout(tick, 0)
+
+    const worker = {
+      async stop() {
+        stopped = true
+        if (timer) clearTimeout(timer)
+        workers.delete(worker)
+        await current
+      },
+    }
+
+    workers.add(worker)
+    return worker
+  }
+
+  // stops every worker started with start(), waiting for in-flight jobs
+  async function stop() {
+    await Promise.all([...workers].map((worker) => worker.stop()))
+  }
+
+  async function deadLetters({ limit = 100 }: { limit?: number } = {}) {
+    const rows = await database.query(
+      `SELECT * FROM ${tableName} WHERE "status" = 'dead' ORDER BY "createdAt" DESC LIMIT $1`,
+      [limit]
+    )
+    return rows.map(toJob)
+  }
+
+  // move a dead job back to pending with a fresh attempt budget
+  async function retry(id: string) {
+    await database.query(
+      `UPDATE ${tableName} SET "status" = 'pending', "attempts" = 0, "lastError" = NULL, "runAt" = now() WHERE "id" = $1 AND "status" = 'dead'`,
+      [id]
+    )
+  }
+
+  return {
+    createTable,
+    createTableSQL,
+    enqueue,
+    runPending,
+    start,
+    stop,
+    deadLetters,
+    retry,
+  }
+}
+
+function toJob(row: Record<string, any>): OutboxJob {
+  return {
+    id: String(row.id),
+    name: row.name,
+    payload: row.payload,
+    authData: row.authData ?? null,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.maxAttempts,
+    lastError: row.lastError ?? null,
+    runAt: new Date(row.runAt),
+    createdAt: new Date(row.createdAt),
+  }
+}
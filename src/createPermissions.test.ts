@@ -0,0 +1,192 @@
+import { createSchema, relationships, string, table } from '@rocicorp/zero'
+import { beforeAll, describe, expect, test } from 'vitest'
+
+import { createPermissions, PermissionError } from './createPermissions'
+import { createMutators } from './helpers/createMutators'
+import { evaluateCondition } from './helpers/evaluateCondition'
+import { mutations } from './mutations'
+import { serverWhere } from './serverWhere'
+import { setEnvironment, setSchema } from './state'
+
+import type { Condition } from '@rocicorp/zero'
+
+const team = table('team').columns({ id: string(), ownerId: string() }).primaryKey('id')
+const channel = table('channel')
+  .columns({ id: string(), ownerId: string(), teamId: string() })
+  .primaryKey('id')
+const message = table('message')
+  .columns({
+    id: string(),
+    channelId: string(),
+    authorId: string(),
+    parentId: string().optional(),
+  })
+  .primaryKey('id')
+
+const messageRelationships = relationships(message, ({ one }) => ({
+  channel: one({ sourceField: ['channelId'], destField: ['id'], destSchema: channel }),
+  team: one(
+    { sourceField: ['channelId'], destField: ['id'], destSchema: channel },
+    { sourceField: ['teamId'], destField: ['id'], destSchema: team }
+  ),
+  parent: one({ sourceField: ['parentId'], destField: ['id'], destSchema: message }),
+}))
+
+const schema = createSchema({
+  tables: [team, channel, message],
+  relationships: [messageRelationships],
+})
+
+const ownsChannel = serverWhere('message', (q, auth: any) =>
+  q.and(
+    q.cmp('authorId', auth?.id || ''),
+    q.exists('channel', (c) => c.where('ownerId', auth?.id || ''))
+  )
+)
+const ownsTeam = serverWhere('message', (q, auth: any) =>
+  q.exists('team', (t) => t.where('ownerId', auth?.id || ''))
+)
+const isReply = serverWhere('message', (q) => q.exists('parent'))
+
+type Row = Record<string, unknown>
+
+// fake transaction over in-memory tables, logs the table of every query it runs
+function createFakeTx() {
+  const tables: Record<string, Row[]> = {
+    team: [{ id: 't1', ownerId: 'u1' }],
+    channel: [
+      { id: 'c1', ownerId: 'u1', teamId: 't1' },
+      { id: 'c2', ownerId: 'u2', teamId: 't1' },
+    ],
+    message: [{ id: 'm0', channelId: 'c1', authorId: 'u2' }],
+  }
+  const ran: string[] = []
+
+  const matches = async (condition: Condition | undefined, row: Row): Promise<boolean> =>
+    !condition ||
+    !!(await evaluateCondition(condition, row, async ({ related, op }) => {
+      const { parentField, childField } = related.correlation
+      let found = false
+      for (const child of tables[related.subquery.table] ?? []) {
+        const joins = parentField.every(
+          (field, i) => child[childField[i]!] === row[field]
+        )
+        if (joins && (await matches(related.subquery.where, child))) found = true
+      }
+      return op === 'EXISTS' ? found : !found
+    }))
+
+  const tx = {
+    location: 'server',
+    async run(query: any) {
+      const { table, where, limit } = query.ast
+      ran.push(table)
+      const rows: Row[] = []
+      for (const row of tables[table] ?? []) {
+        if (await matches(where, row)) rows.push(row)
+      }
+      return limit === 1 ? rows[0] : rows
+    },
+    mutate: {
+      message: {
+        async insert(row: Row) {
+          ran.push('insert')
+          tables.message!.push(row)
+        },
+      },
+    },
+  }
+
+  return { tx, tables, ran }
+}
+
+function setup(
+  where: any,
+  { preInsert = true, role }: { preInsert?: boolean; role?: string } = {}
+) {
+  const permissions = createPermissions({ environment: 'server', schema, preInsert })
+  const mutators = createMutators({
+    environment: 'server',
+    authData: { id: 'u1', role } as any,
+    can: permissions.can,
+    models: { message: { mutate: mutations(message, { insert: where }) } },
+  }) as any
+  return { insert: (tx: unknown, row: Row) => mutators.message.insert(tx, row) }
+}
+
+describe('createPermissions proposed rows', () => {
+  beforeAll(() => {
+    setSchema(schema)
+    setEnvironment('server')
+  })
+
+  test('an allowed row skips the check after inserting', async () => {
+    const { tx, ran } = createFakeTx()
+
+    await setup(ownsChannel).insert(tx, { id: 'm1', channelId: 'c1', authorId: 'u1' })
+
+    // the exists() callback narrowed the channel lookup to the owner
+    expect(ran).toEqual(['channel', 'insert'])
+  })
+
+  test('a denied row throws before it is written', async () => {
+    const { tx, tables, ran } = createFakeTx()
+
+    await expect(
+      setup(ownsChannel).insert(tx, { id: 'm1', channelId: 'c2', authorId: 'u1' })
+    ).rejects.toBeInstanceOf(PermissionError)
+
+    expect(ran).toEqual(['channel'])
+    expect(tables.message).toHaveLength(1)
+  })
+
+  test('walks multi-hop exists() one query per hop', async () => {
+    const { tx, ran } = createFakeTx()
+
+    await setup(ownsTeam).insert(tx, { id: 'm1', channelId: 'c2', authorId: 'u1' })
+
+    expect(ran).toEqual(['channel', 'team', 'insert'])
+  })
+
+  test('leaves exists() it can not walk to the check after inserting', async () => {
+    const { tx, ran } = createFakeTx()
+
+    // the row could be its own parent once written
+    await setup(isReply).insert(tx, {
+      id: 'm1',
+      channelId: 'c1',
+      authorId: 'u1',
+      parentId: 'm0',
+    })
+    // channelId is left to the database
+    await expect(
+      setup(ownsTeam).insert(tx, { id: 'm2', authorId: 'u1' })
+    ).rejects.toBeInstanceOf(PermissionError)
+
+    expect(ran).toEqual(['insert', 'message', 'insert', 'message'])
+  })
+
+  test('still checks after inserting without preInsertPermissions', async () => {
+    const { tx, ran } = createFakeTx()
+
+    await setup(ownsChannel, { preInsert: false }).insert(tx, {
+      id: 'm1',
+      channelId: 'c1',
+      authorId: 'u1',
+    })
+
+    expect(ran).toEqual(['insert', 'message'])
+  })
+
+  test('admins skip both checks', async () => {
+    const { tx, ran } = createFakeTx()
+
+    await setup(ownsChannel, { role: 'admin' }).insert(tx, {
+      id: 'm1',
+      channelId: 'c2',
+      authorId: 'u2',
+    })
+
+    expect(ran).toEqual(['insert'])
+  })
+})
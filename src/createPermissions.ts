@@ -1,14 +1,19 @@
 import { ensure, EnsureError } from '@take-out/helpers'
 
+import { explainCondition, formatPermissionExplanation } from './explainPermission'
 import { setDidRunPermissionCheck } from './helpers/didRunPermissionCheck'
+import { evaluateCondition } from './helpers/evaluateCondition'
 import { mutatorContext } from './helpers/mutatorContext'
 import { prettyFormatZeroQuery } from './helpers/prettyFormatZeroQuery'
+import { getLogger } from './logger'
 import { getZQL } from './state'
+import { withSpan } from './tracing'
 import { getWhereTableName } from './where'
 
 import type { AdminRoleMode, AuthData, Can, TableName, Transaction, Where } from './types'
 import type {
   Condition,
+  CorrelatedSubqueryCondition,
   ExpressionBuilder,
   Query,
   Schema as ZeroSchema,
@@ -25,10 +30,16 @@ export function createPermissions<Schema extends ZeroSchema>({
   environment,
   schema,
   adminRoleMode = 'all',
+  preInsert = false,
+  onDenied,
 }: {
   environment: 'client' | 'server'
   schema: Schema
   adminRoleMode?: AdminRoleMode
+  /** check proposed rows in memory before they are inserted */
+  preInsert?: boolean
+  /** called when a mutation permission check denies */
+  onDenied?: (tableName: string) => void
 }) {
   type PermissionReturn = Condition | boolean
 
@@ -71,7 +82,10 @@ export function createPermissions<Schema extends ZeroSchema>({
     } catch (err) {
       // treat throws as deny — ensure() is the idiomatic "deny if falsy" pattern
       if (process.env.NODE_ENV === 'development' && !(err instanceof EnsureError)) {
-        console.warn(`[permission] ${tableName} threw:`, err)
+        getLogger().warn(
+          { table: tableName, authId: authData?.id, err },
+          `[permission] ${tableName} threw`
+        )
       }
       return eb.cmpLit(true, '=', false)
     }
@@ -98,19 +112,153 @@ export function createPermissions<Schema extends ZeroSchema>({
     return eb.and(permissionReturn, ...primaryKeyWheres)
   }
 
-  const can: Can = async (where, obj) => {
+  const can: Can = async (where, obj, options) => {
     // on client we always allow! we only check on server (like zero does)
     if (environment === 'server') {
+      if (typeof where === 'string') {
+        // ctx.can resolves actions through the model, see createMutators
+        throw new Error(
+          `can('${where}') needs a model created with mutations(schema, ...)`
+        )
+      }
       const ctx = mutatorContext()
       const tableName = getWhereTableName(where)
       if (!tableName) {
         throw new Error(`Must use where('table') style where to pass to can()`)
       }
-      await ensurePermission(ctx.tx, ctx.authData, tableName, where, obj)
+      if (options?.proposed) {
+        // left for the check after inserting
+        if (!preInsert || typeof obj !== 'object') return
+        const checked = await ensureProposedPermission(
+          ctx.tx,
+          ctx.authData,
+          tableName,
+          where,
+          obj
+        )
+        if (!checked) return
+      } else {
+        await ensurePermission(ctx.tx, ctx.authData, tableName, where, obj)
+      }
       setDidRunPermissionCheck(ctx)
     }
   }
 
+  function deny(tableName: TableName, authData: AuthData | null, detail?: string) {
+    onDenied?.(tableName)
+    let msg = `[permission] 🚫 Not Allowed: ${tableName} with auth id: ${authData?.id}`
+    if (process.env.NODE_ENV === 'development' && detail) {
+      msg += `\n ${detail}`
+    }
+    return new PermissionError(msg)
+  }
+
+  /**
+   * Answers the post-insert permission query for a row that isn't written
+   * yet: its own columns are compared in memory, exists() branches query the
+   * related rows it would correlate with. Resolves false when the tree can't
+   * be evaluated this way.
+   */
+  async function ensureProposedPermission(
+    tx: Transaction,
+    authData: AuthData | null,
+    tableName: TableName,
+    where: Where,
+    row: Record<string, unknown>
+  ): Promise<boolean> {
+    const adminBypassMutations = adminRoleMode === 'all' || adminRoleMode === 'mutations'
+    if (adminBypassMutations && authData?.role === 'admin') {
+      return true
+    }
+
+    // remember what each exists() was built from so it can be queried directly
+    const subqueries = new Map<
+      object,
+      { relationship: string; cb?: (q: Query<any, any>) => Query<any, any> }
+    >()
+    let condition: Condition | undefined
+
+    const zqlBuilder = getZQL() as any
+    zqlBuilder[tableName].where((eb: ExpressionBuilder<any, any>) => {
+      const tracked = Object.create(eb) as ExpressionBuilder<any, any>
+      tracked.exists = ((relationship: string, cb: any, options: any) => {
+        const result = eb.exists(relationship as any, cb, options)
+        if (result.type === 'correlatedSubquery') {
+          subqueries.set(result.related, { relationship, cb })
+        }
+        return result
+      }) as any
+      condition = buildPermissionQuery(authData, tracked, where, row, tableName)
+      return condition
+    })
+
+    const evaluateSubquery = async ({ related, op }: CorrelatedSubqueryCondition) => {
+      const source = subqueries.get(related)
+      const hops = source && schema.relationships?.[tableName]?.[source.relationship]
+      // the row would find itself once written, only the query knows that
+      if (!source || !hops || hops.some((hop) => hop.destSchema === tableName)) {
+        return undefined
+      }
+
+      if (hops[0]!.sourceField.some((field) => row[field] === undefined)) {
+        return undefined
+      }
+
+      // walk the relationship from the proposed row, one query per hop
+      let parents: Record<string, unknown>[] = [row]
+      for (const [index, hop] of hops.entries()) {
+        const keys = parents
+          .map((parent) => hop.sourceField.map((field) => parent[field] ?? null))
+          // null never joins
+          .filter((values) => values.every((value) => value !== null))
+        if (!keys.length) {
+          parents = []
+          break
+        }
+
+        const isLast = index === hops.length - 1
+        const query = zqlBuilder[hop.destSchema].where(
+          (eb: ExpressionBuilder<any, any>) =>
+            eb.or(
+              ...keys.map((values) =>
+                eb.and(
+                  ...hop.destField.map((field, i) =>
+                    eb.cmp(field as any, values[i] as any)
+                  )
+                )
+              )
+            )
+        ) as Query<any, any>
+        if (isLast) {
+          // the exists() callback narrows the last hop, like zero's subquery
+          const found = await tx.run((source.cb ? source.cb(query) : query).one())
+          parents = found ? [found] : []
+        } else {
+          parents = (await tx.run(query)) as Record<string, unknown>[]
+        }
+      }
+
+      const exists = parents.length > 0
+      return op === 'EXISTS' ? exists : !exists
+    }
+
+    const allowed = condition
+      ? await withSpan(
+          'on-zero.permission',
+          { table: tableName, authId: authData?.id, proposed: true },
+          async (span) => {
+            const result = await evaluateCondition(condition!, row, evaluateSubquery)
+            if (result !== undefined) span.setAttribute('allowed', result)
+            return result
+          }
+        )
+      : undefined
+
+    if (allowed === undefined) return false
+    if (!allowed) throw deny(tableName, authData, 'proposed row failed the check')
+    return true
+  }
+
   async function ensurePermission(
     tx: Transaction,
     authData: AuthData | null,
@@ -135,24 +283,75 @@ export function createPermissions<Schema extends ZeroSchema>({
         })
         .one()
 
-      ensure(await tx.run(query))
+      const permissionQuery = query
+      await withSpan(
+        'on-zero.permission',
+        { table: tableName, authId: authData?.id },
+        async (span) => {
+          const row = await tx.run(permissionQuery)
+          span.setAttribute('allowed', !!row)
+          ensure(row)
+        }
+      )
     } catch (err) {
       const errorTitle = `${tableName} with auth id: ${authData?.id}`
 
       if (err instanceof EnsureError) {
-        let msg = `[permission] 🚫 Not Allowed: ${errorTitle}`
-        if (process.env.NODE_ENV === 'development' && query) {
-          msg += `\n ${prettyFormatZeroQuery(query)}`
+        let detail = query ? prettyFormatZeroQuery(query) : ''
+        if (process.env.NODE_ENV === 'development') {
+          // which branch denied, worth the extra queries while developing
+          const explanation = await explainPermission(
+            tx,
+            authData,
+            tableName,
+            where,
+            obj
+          ).catch(() => null)
+          if (explanation) {
+            detail += `\n${formatPermissionExplanation(explanation)}`
+          }
         }
-        throw new PermissionError(msg)
+        throw deny(tableName, authData, detail)
       }
 
       throw new Error(`Error running permission ${errorTitle}\n${err}`)
     }
   }
 
+  /**
+   * Runs every branch of the permission condition against the row by itself,
+   * primary key included, so the result shows which one denied.
+   */
+  async function explainPermission(
+    tx: Transaction,
+    authData: AuthData | null,
+    tableName: TableName,
+    where: Where,
+    objOrId: Record<string, any> | string
+  ) {
+    const zqlBuilder = getZQL() as any
+    let condition: Condition | undefined
+    let rowCondition: Condition[] = []
+
+    zqlBuilder[tableName].where((eb: ExpressionBuilder<any, any>) => {
+      condition = buildPermissionQuery(authData, eb, where, objOrId, tableName)
+      rowCondition = schema.tables[tableName]!.primaryKey.map((key) =>
+        eb.cmp(key as any, typeof objOrId === 'string' ? objOrId : objOrId[key])
+      )
+      return condition
+    })
+
+    return explainCondition(condition!, async (branch) => {
+      const query = zqlBuilder[tableName]
+        .where((eb: ExpressionBuilder<any, any>) => eb.and(branch, ...rowCondition))
+        .one()
+      return !!(await tx.run(query))
+    })
+  }
+
   return {
     can,
     buildPermissionQuery,
+    explainPermission,
   }
 }
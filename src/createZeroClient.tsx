@@ -15,7 +15,12 @@ import { createPermissions } from './createPermissions'
 import { createUseQuery, type QueryControlMode } from './createUseQuery'
 import { createMutators } from './helpers/createMutators'
 import { getAuth } from './helpers/getAuth'
-import { getAllMutationsPermissions, getMutationsPermissions } from './modelRegistry'
+import { setLogger, type Logger } from './logger'
+import {
+  getActionPermission,
+  getAllMutationsPermissions,
+  getMutationsPermissions,
+} from './modelRegistry'
 import { registerQuery } from './queryRegistry'
 import { resolveQuery, type PlainQueryFn } from './resolveQuery'
 import { setCustomQueries } from './run'
@@ -24,7 +29,13 @@ import { getRawWhere, setEvaluatingPermission } from './where'
 import { setRunner } from './zeroRunner'
 import { zql } from './zql'
 
-import type { AuthData, GenericModels, GetZeroMutators, ZeroEvent } from './types'
+import type {
+  AuthData,
+  GenericModels,
+  GetZeroMutators,
+  PermissionAction,
+  ZeroEvent,
+} from './types'
 import type { Query, Row, Zero, ZeroOptions, Schema as ZeroSchema } from '@rocicorp/zero'
 
 type PreloadOptions = { ttl?: 'always' | 'never' | number | undefined }
@@ -45,16 +56,23 @@ export function createZeroClient<
   models,
   groupedQueries,
   permissionStrategy = 'optimistic',
+  logger,
 }: {
   schema: Schema
   models: Models
   groupedQueries: GroupedQueries
   permissionStrategy?: PermissionStrategy
+  /**
+   * Structured logger for on-zero's internal logs, pino-compatible.
+   * Defaults to console (with devtools groups for mutator debug output).
+   */
+  logger?: Logger
 }) {
   type ZeroMutators = GetZeroMutators<Models>
   type ZeroInstance = Zero<Schema, ZeroMutators>
   type TableName = keyof Schema['tables'] & string
 
+  if (logger) setLogger(logger)
   setSchema(schema)
 
   // only set environment to 'client' if server hasn't already claimed it
@@ -89,17 +107,21 @@ export function createZeroClient<
   // register per-model permission queries so each table gets its own materialized view
   // client: evaluates raw permission condition for optimistic result
   // server: evaluates real permission condition authoritatively
-  const permissionCheckFns: Record<
-    string,
-    (args: { objOrId: string | Record<string, any> }) => any
-  > = {}
+  type PermissionCheckArgs = {
+    objOrId: string | Record<string, any>
+    /** which of the model's permissions to check, defaults to update */
+    action?: PermissionAction
+  }
+
+  const permissionCheckFns: Record<string, (args: PermissionCheckArgs) => any> = {}
 
   const createPermissionCheckFn = (table: string) => {
-    const fn = (args: { objOrId: string | Record<string, any> }) => {
-      const perm = getMutationsPermissions(table)
+    const fn = (args: PermissionCheckArgs) => {
+      const perm = getActionPermission(table, args.action ?? 'update')
       const base = (zql as any)[table]
 
-      if (!args.objOrId) {
+      // a model without a where for this action denies it
+      if (!args.objOrId || (!perm && getMutationsPermissions(table))) {
         return base.where((eb: any) => eb.cmpLit(true, '=', false)).one()
       }
 
@@ -190,12 +212,20 @@ export function createZeroClient<
 
   // permission check uses a per-model synced query so server is authoritative
   // permissionStrategy controls client behavior before server responds
+  // usePermission('message', id, { action: 'delete' })
   function usePermission(
     table: TableName | (string & {}),
     objOrId: string | Partial<Row<any>> | undefined,
-    enabled = typeof objOrId !== 'undefined',
-    debug = false
+    enabledOrOptions:
+      | boolean
+      | { action?: PermissionAction; enabled?: boolean; debug?: boolean } = {},
+    debugArg = false
   ): boolean | null {
+    const options =
+      typeof enabledOrOptions === 'boolean'
+        ? { enabled: enabledOrOptions }
+        : enabledOrOptions
+    const { action, enabled = typeof objOrId !== 'undefined', debug = debugArg } = options
     const disableMode = use(DisabledContext)
     const lastRef = useRef<boolean | null>(null)
     const tableStr = table as string
@@ -208,12 +238,12 @@ export function createZeroClient<
 
     const [data, status] = useQuery(
       checkFn as any,
-      { objOrId: objOrId as any, _uid },
+      { objOrId: objOrId as any, _uid, ...(action && { action }) },
       { enabled: Boolean(!disableMode && enabled && objOrId && checkFn) }
     )
 
     if (debug) {
-      console.info(`usePermission()`, { table, objOrId, data, status })
+      console.info(`usePermission()`, { table, objOrId, action, data, status })
     }
 
     if (!objOrId) return false
@@ -0,0 +1,480 @@
+import { createSchema, defineQueries, defineQuery, string, table } from '@rocicorp/zero'
+import * as v from 'valibot'
+import { describe, expect, test, vi } from 'vitest'
+
+import { createZeroServer, ZeroServerClosedError } from './createZeroServer'
+import { mutations } from './mutations'
+import { registerQuery } from './queryRegistry'
+import { serverWhere } from './serverWhere'
+import { getZQL } from './state'
+
+import type { DatabaseAdapter } from './createDatabase'
+
+// pg isn't loaded in tests, every server here uses custom adapters
+vi.mock('pg', () => ({ Pool: class {} }))
+vi.mock('@rocicorp/zero/server/adapters/pg', () => ({
+  zeroNodePg: () => ({}),
+  NodePgTransactionInternal: class {},
+}))
+
+const schema = { tables: {}, relationships: {} } as any
+
+const noteTable = table('note')
+  .columns({ id: string(), ownerId: string() })
+  .primaryKey('id')
+const noteSchema = createSchema({ tables: [noteTable] })
+
+const permission = serverWhere('note', (q: any, auth: any) =>
+  q.cmp('ownerId', auth?.id || '')
+)
+const noteById = ({ id }: { id: string }) =>
+  (getZQL() as any).note.where(permission).where('id', id)
+registerQuery(noteById, 'note.byId')
+
+const queries = defineQueries({
+  note: {
+    byId: defineQuery(v.object({ id: v.string() }), ({ args }) => noteById(args)),
+  },
+})
+
+// fake zero Database, statements only land in `committed` if the callback resolves
+function createFakeAdapter(
+  options: {
+    close?: () => Promise<void>
+    query?: (sql: string) => Promise<unknown[]>
+    run?: (query: unknown) => Promise<unknown>
+  } = {}
+) {
+  const queries: string[] = []
+  const committed: string[] = []
+  const adapter: DatabaseAdapter = {
+    type: 'custom',
+    database: {
+      async transaction(cb: (tx: any, hooks: any) => any, input?: any) {
+        const written: string[] = []
+        const tx = {
+          location: 'server',
+          reason: 'authoritative',
+          dbTransaction: {
+            query: async (sql: string) => {
+              queries.push(sql)
+              written.push(sql)
+              return options.query ? options.query(sql) : []
+            },
+          },
+          run: async (query: unknown) => {
+            await options.run?.(query)
+            return { ranOn: adapter, query }
+          },
+        }
+        // push checks the client's last mutation id, accept whatever comes in order
+        const result = await cb(tx, {
+          updateClientMutationID: async () => ({ lastMutationID: input?.mutationID }),
+          writeMutationResult: async () => {},
+        })
+        committed.push(...written)
+        return result
+      },
+    } as any,
+    close: options.close,
+  }
+  return { adapter, queries, committed }
+}
+
+function setup(options: Partial<Parameters<typeof createZeroServer>[0]> = {}) {
+  const primary = createFakeAdapter()
+  const server = createZeroServer({
+    schema,
+    models: {},
+    createServerActions: () => ({}),
+    db: primary.adapter,
+    ...options,
+  })
+  return { server, primary }
+}
+
+function deferred() {
+  let resolve = () => {}
+  const promise = new Promise<void>((r) => (resolve = r))
+  return { promise, resolve }
+}
+
+describe('createZeroServer', () => {
+  describe('close', () => {
+    test('waits for in-flight work, then rejects new calls', async () => {
+      const close = vi.fn(async () => {})
+      const { server } = setup({ db: createFakeAdapter({ close }).adapter })
+
+      const gate = deferred()
+      let finished = false
+      const inFlight = server.batch(async () => {
+        await gate.promise
+        finished = true
+      })
+
+      const closing = server.close()
+      await expect(server.batch(async () => {})).rejects.toThrow(ZeroServerClosedError)
+      gate.resolve()
+
+      expect(await closing).toMatchObject({
+        drained: true,
+        connectionsClosed: true,
+        pendingRequests: 0,
+        pendingTasks: 0,
+      })
+      await inFlight
+      expect(finished).toBe(true)
+      expect(close).toHaveBeenCalledTimes(1)
+
+      await expect(server.batch(async () => {})).rejects.toThrow(ZeroServerClosedError)
+      await expect((server.mutate as any).user.insert({})).rejects.toThrow(
+        ZeroServerClosedError
+      )
+      await expect(server.runQuery((() => {}) as any, {})).rejects.toThrow(
+        ZeroServerClosedError
+      )
+      await expect(
+        server.handleMutationRequest({
+          authData: null,
+          request: new Request('http://localhost'),
+        })
+      ).rejects.toThrow(ZeroServerClosedError)
+      // a second close() returns the same summary
+      expect(server.close()).toBe(closing)
+    })
+
+    test('lets work that is still draining make nested calls', async () => {
+      const { server } = setup()
+
+      const gate = deferred()
+      const inFlight = server.batch(async () => {
+        await gate.promise
+        return server.batch(async () => 'nested')
+      })
+
+      const closing = server.close()
+      gate.resolve()
+
+      expect(await inFlight).toBe('nested')
+      expect((await closing).drained).toBe(true)
+    })
+
+    test('waits for an in-flight runQuery before ending the pools', async () => {
+      const close = vi.fn(async () => {})
+      const gate = deferred()
+      const { server } = setup({
+        schema: noteSchema,
+        queries,
+        db: createFakeAdapter({ close, run: () => gate.promise }).adapter,
+      })
+
+      const reading = server.runQuery(noteById, { id: 'n1' }, { authData: null })
+      const closing = server.close()
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      expect(close).not.toHaveBeenCalled()
+      gate.resolve()
+
+      expect(await reading).toMatchObject({ query: expect.anything() })
+      expect(await closing).toMatchObject({ drained: true, pendingRequests: 0 })
+      expect(close).toHaveBeenCalledTimes(1)
+    })
+
+    test('bounds draining and ending the pools by timeoutMs', async () => {
+      const { server } = setup({
+        db: createFakeAdapter({ close: () => new Promise(() => {}) }).adapter,
+      })
+
+      server.batch(() => new Promise(() => {}))
+
+      const summary = await server.close({ timeoutMs: 50 })
+      expect(summary).toMatchObject({
+        drained: false,
+        connectionsClosed: false,
+        pendingRequests: 1,
+      })
+      expect(summary.durationMs).toBeLessThan(1000)
+    })
+  })
+
+  describe('metrics', () => {
+    test('counts mutators once their transaction settles', async () => {
+      const { server } = setup({
+        models: { message: { mutate: { send: async () => {} } } } as any,
+      })
+      const mutate = server.mutate as any
+
+      await mutate.message.send({})
+      await expect(
+        server.batch(async (m: any) => {
+          await m.message.send({})
+          throw new Error('later step failed')
+        })
+      ).rejects.toThrow('later step failed')
+
+      const text = server.metrics.toPrometheus()
+      expect(text).toContain(
+        'on_zero_mutations_total{model="message",mutator="send",outcome="success"} 1'
+      )
+      expect(text).toContain(
+        'on_zero_mutations_total{model="message",mutator="send",outcome="rollback"} 1'
+      )
+    })
+  })
+
+  describe('batch', () => {
+    test('rolls back every mutation and skips effects when one throws', async () => {
+      const effects: string[] = []
+      const { server, primary } = setup({
+        models: {
+          message: {
+            mutate: {
+              async send({ tx, server }: any, { id }: { id: string }) {
+                await tx.dbTransaction.query(`insert ${id}`)
+                server.afterCommit(async () => {
+                  effects.push(`afterCommit ${id}`)
+                })
+                server.onRollback(async () => {
+                  effects.push(`onRollback ${id}`)
+                })
+              },
+            },
+          },
+        } as any,
+      })
+
+      await expect(
+        server.batch(
+          async (m: any) => {
+            await m.message.send({ id: 'm1' })
+            await m.message.send({ id: 'm2' })
+            throw new Error('third step failed')
+          },
+          { awaitEffects: true }
+        )
+      ).rejects.toThrow('third step failed')
+      await server.close()
+
+      expect(primary.queries).toEqual(['insert m1', 'insert m2'])
+      expect(primary.committed).toEqual([])
+      expect(effects).toEqual(['onRollback m1', 'onRollback m2'])
+    })
+  })
+
+  describe('runQuery', () => {
+    test('applies serverWhere permissions for the given authData', async () => {
+      const { server } = setup({ schema: noteSchema, queries })
+
+      const { query } = (await server.runQuery(
+        noteById,
+        { id: 'n1' },
+        { authData: { id: 'u1' } as any }
+      )) as any
+
+      expect(query.ast.where.conditions).toEqual([
+        expect.objectContaining({
+          left: { type: 'column', name: 'ownerId' },
+          right: { type: 'literal', value: 'u1' },
+        }),
+        expect.objectContaining({
+          left: { type: 'column', name: 'id' },
+          right: { type: 'literal', value: 'n1' },
+        }),
+      ])
+    })
+
+    test('rejects invalid args, validateQuery and unknown functions', async () => {
+      const validateQuery = vi.fn(({ authData }) => {
+        if (!authData) throw new Error('login required')
+      })
+      const { server } = setup({ schema: noteSchema, queries, validateQuery })
+
+      await expect(
+        server.runQuery(noteById, { id: 5 } as any, { authData: { id: 'u1' } as any })
+      ).rejects.toThrow('Validation failed for query note.byId')
+      await expect(
+        server.runQuery(noteById, { id: 'n1' }, { authData: null })
+      ).rejects.toThrow('login required')
+      await expect(server.runQuery(() => null as any, {})).rejects.toThrow(
+        'not registered'
+      )
+    })
+  })
+
+  describe('tenants', () => {
+    function setupTenants() {
+      const tenant = createFakeAdapter({
+        query: async () => {
+          throw new Error('tenant down')
+        },
+      })
+      const { server } = setup({
+        models: { note: { mutate: { async touch() {} } } } as any,
+        tenants: { resolveTenant: () => ({ id: 'acme', db: tenant.adapter }) },
+      })
+      return { server, mutate: server.mutate as any }
+    }
+
+    test('rejects outbox and idempotency alongside tenants at startup', () => {
+      const tenants = { resolveTenant: () => null }
+
+      expect(() => setup({ tenants, outbox: { jobs: {} }, idempotency: true })).toThrow(
+        "[on-zero] tenants can't be combined with outbox and idempotency"
+      )
+      expect(() => setup({ tenants, idempotency: true })).toThrow(
+        "[on-zero] tenants can't be combined with idempotency"
+      )
+    })
+
+    test('reports connected tenants in health without failing readiness', async () => {
+      const { server, mutate } = setupTenants()
+
+      await mutate.note.touch({})
+      const status = await server.health()
+
+      expect(status.ready).toBe(true)
+      expect(status.tenantDatabases).toEqual({
+        acme: { ok: false, latencyMs: null, error: 'tenant down' },
+      })
+      await server.close()
+    })
+  })
+
+  describe('replicas', () => {
+    test('reads from replicas outside transactions and the primary inside', async () => {
+      const replica = createFakeAdapter()
+      const { server, primary } = setup({
+        schema: noteSchema,
+        replicas: [replica.adapter],
+      })
+
+      const outside = (await server.query((q: any) => q.note)) as any
+      const inside = (await server.transaction(() =>
+        server.query((q: any) => q.note)
+      )) as any
+      const inBatch = (await server.batch(() => server.query((q: any) => q.note))) as any
+
+      expect(outside.ranOn).toBe(replica.adapter)
+      expect(inside.ranOn).toBe(primary.adapter)
+      expect(inBatch.ranOn).toBe(primary.adapter)
+    })
+  })
+
+  describe('health', () => {
+    test('turns unready when a replica is down', async () => {
+      const replica = createFakeAdapter({
+        query: async () => {
+          throw new Error('replica down')
+        },
+      })
+      const { server } = setup({ replicas: [replica.adapter] })
+
+      const status = await server.health()
+
+      expect(status.ready).toBe(false)
+      expect(status.database.ok).toBe(true)
+      expect(status.replicas).toEqual([
+        { ok: false, latencyMs: null, error: 'replica down' },
+      ])
+      expect((await server.healthHandler()).status).toBe(503)
+      await server.close()
+    })
+  })
+
+  describe('explainPermission', () => {
+    test('rejects when the table has no permission for the action', async () => {
+      const { server } = setup()
+
+      const explaining = server.explainPermission({
+        table: 'nothing',
+        where: 'delete',
+        objOrId: 'n1',
+        authData: null,
+      })
+
+      await expect(explaining).rejects.toThrow(
+        '[permission] no delete permission defined for table: nothing'
+      )
+    })
+  })
+
+  describe('push', () => {
+    test('adds what each mutator returned as the result data', async () => {
+      const { server } = setup({
+        models: {
+          post: {
+            mutate: {
+              createDraft: async (_ctx: any, { title }: { title: string }) => ({
+                id: 'p1',
+                title,
+              }),
+              publish: async () => {},
+            },
+          },
+        } as any,
+      })
+
+      const mutation = (id: number, name: string, args: unknown) => ({
+        type: 'custom',
+        id,
+        clientID: 'c1',
+        name,
+        args: [args],
+        timestamp: 0,
+      })
+      const request = new Request('http://localhost/push?schema=app&appID=app', {
+        method: 'POST',
+        body: JSON.stringify({
+          clientGroupID: 'g1',
+          mutations: [
+            mutation(1, 'post|createDraft', { title: 'hi' }),
+            mutation(2, 'post|publish', {}),
+          ],
+          pushVersion: 1,
+          timestamp: 0,
+          requestID: 'r1',
+        }),
+      })
+
+      const { response } = await server.handleMutationRequest({ authData: null, request })
+
+      expect((response as any).mutations).toEqual([
+        { id: { clientID: 'c1', id: 1 }, result: { data: { id: 'p1', title: 'hi' } } },
+        { id: { clientID: 'c1', id: 2 }, result: {} },
+      ])
+      await server.close()
+    })
+  })
+  describe('permission queries', () => {
+    function transform(action: unknown) {
+      return new Request('http://localhost/pull', {
+        method: 'POST',
+        body: JSON.stringify([
+          'transform',
+          [{ id: 'q1', name: 'permission.note', args: [{ objOrId: 'n1', action }] }],
+        ]),
+      })
+    }
+
+    test('only accepts known actions from the client', async () => {
+      mutations(noteTable, { update: permission })
+      const { server } = setup({ schema: noteSchema, queries })
+
+      const pull = async (action: unknown) =>
+        (
+          (await server.handleQueryRequest({
+            authData: { id: 'u1' } as any,
+            request: transform(action),
+          })) as any
+        ).response[1][0]
+
+      expect(await pull('update')).toMatchObject({ id: 'q1', ast: expect.anything() })
+      for (const action of ['constructor', 'toString', 'nope']) {
+        expect(await pull(action)).toMatchObject({
+          error: 'app',
+          message: `[permission] unknown action: ${action}`,
+        })
+      }
+      await server.close()
+    })
+  })
+})
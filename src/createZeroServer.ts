@@ -1,33 +1,83 @@
 import { mustGetQuery } from '@rocicorp/zero'
 import { PushProcessor } from '@rocicorp/zero/pg'
 import { handleQueryRequest as zeroHandleQueryRequest } from '@rocicorp/zero/server'
-import { zeroNodePg } from '@rocicorp/zero/server/adapters/pg'
-import { assertString } from '@take-out/helpers'
-import { Pool } from 'pg'
+import { createAsyncContext, mapObject } from '@take-out/helpers'
 
+import {
+  createDatabase,
+  dummyTransactionInput,
+  type DatabaseAdapter,
+  type PoolOptions,
+  type PoolStats,
+  type ResolvedDatabase,
+} from './createDatabase'
+import { createIdempotency, type IdempotencyOptions } from './createIdempotency'
+import { createOutbox, type OutboxOptions } from './createOutbox'
 import { PermissionError, createPermissions } from './createPermissions'
-import { createMutators } from './helpers/createMutators'
+import { createMutators, type MutationHooks } from './helpers/createMutators'
 import {
   getScopedAuthData,
   isInZeroMutation,
   mutatorContext,
   runWithAuthScope,
 } from './helpers/mutatorContext'
-import { runWithQueryContext } from './helpers/queryContext'
-import { getMutationsPermissions } from './modelRegistry'
+import { createPendingWork } from './helpers/pendingWork'
+import {
+  isInQueryContext,
+  queryAuthData,
+  runWithQueryContext,
+} from './helpers/queryContext'
+import {
+  createMemoryRateLimitStore,
+  parseRate,
+  type RateLimits,
+  type RateLimitStore,
+} from './helpers/rateLimit'
+import {
+  createTenantRegistry,
+  currentTenant,
+  type TenantConfig,
+  type TenantOptions,
+} from './helpers/tenants'
+import {
+  getCommitTasks,
+  runRollbackEffects,
+  trackTransactionEffects,
+  type TransactionEffects,
+} from './helpers/transactionEffects'
+import { getLogger, setLogger, type LogFields, type Logger } from './logger'
+import { createServerMetrics } from './metrics'
+import {
+  getActionPermission,
+  getAllMutationsPermissions,
+  getMutationsPermissions,
+  isPermissionAction,
+} from './modelRegistry'
+import { getQueryName } from './queryRegistry'
 import { setCustomQueries } from './run'
 import { getZQL, setEnvironment, setSchema } from './state'
+import { setTracer, withSpan, type Tracer } from './tracing'
+import {
+  formatSchemaDiff,
+  SchemaDriftError,
+  verifySchema as verifyDatabaseSchema,
+  type SchemaDiff,
+} from './verifySchema'
 import { setEvaluatingPermission } from './where'
 import { setRunner } from './zeroRunner'
 
+import type { PermissionExplanation } from './explainPermission'
+import type { PlainQueryFn } from './resolveQuery'
 import type {
   AdminRoleMode,
   AsyncAction,
   AuthData,
   GenericModels,
   MutatorContext,
+  PermissionAction,
   QueryBuilder,
   Transaction,
+  Where,
 } from './types'
 import type {
   AnyQueryRegistry,
@@ -35,23 +85,188 @@ import type {
   Query,
   Schema as ZeroSchema,
 } from '@rocicorp/zero'
-import type { TransactionProviderInput } from '@rocicorp/zero/pg'
+import type { Database } from '@rocicorp/zero/server'
 
 type MutateAuthData = Pick<AuthData, 'email' | 'id'> & Partial<AuthData>
 
 type MutateOptions = {
   authData?: MutateAuthData
   awaitEffects?: boolean
+  /**
+   * Runs the mutator at most once per key (until the key expires), replays
+   * with the same key resolve without running it again. Needs the
+   * `idempotency` option on createZeroServer.
+   */
+  idempotencyKey?: string
 }
 
+// resolves with whatever the mutator returns
 type ServerMutate<Models extends GenericModels> = {
   [Key in keyof Models]: {
     [K in keyof Models[Key]['mutate']]: Models[Key]['mutate'][K] extends (
       ctx: MutatorContext,
       arg: infer Arg
-    ) => any
-      ? (arg: Arg, options?: MutateOptions) => Promise<void>
-      : (options?: MutateOptions) => Promise<void>
+    ) => infer Return
+      ? (arg: Arg, options?: MutateOptions) => Promise<Awaited<Return>>
+      : Models[Key]['mutate'][K] extends (...args: any[]) => infer Return
+        ? (options?: MutateOptions) => Promise<Awaited<Return>>
+        : never
+  }
+}
+
+type RunQueryOptions = {
+  /** who the query runs as, defaults to the current auth scope or anonymous */
+  authData?: AuthData | null
+}
+
+type BatchOptions = Pick<MutateOptions, 'authData' | 'awaitEffects'>
+
+type ExplainPermissionOptions = {
+  table: string
+  /** a serverWhere, or an action of the table's mutations() permissions */
+  where: Where | PermissionAction
+  objOrId: string | Record<string, any>
+  authData: AuthData | null
+}
+
+// mutators inside zeroServer.batch, options come from the batch itself
+type ServerBatchMutate<Models extends GenericModels> = {
+  [Key in keyof Models]: {
+    [K in keyof Models[Key]['mutate']]: Models[Key]['mutate'][K] extends (
+      ctx: MutatorContext,
+      arg: infer Arg
+    ) => infer Return
+      ? (arg: Arg) => Promise<Awaited<Return>>
+      : Models[Key]['mutate'][K] extends (...args: any[]) => infer Return
+        ? () => Promise<Awaited<Return>>
+        : never
+  }
+}
+
+async function pingDatabase(
+  target: Pick<ResolvedDatabase, 'query'>,
+  timeoutMs: number
+): Promise<DatabaseHealth> {
+  const start = performance.now()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`timed out after ${timeoutMs}ms`)),
+      timeoutMs
+    )
+  })
+
+  try {
+    await Promise.race([target.query('SELECT 1'), timeout])
+    return { ok: true, latencyMs: Math.round(performance.now() - start) }
+  } catch (err) {
+    return {
+      ok: false,
+      latencyMs: null,
+      error: err instanceof Error ? err.message : String(err),
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// set while running work close() waits for, to the server it belongs to
+const trackedWork = createAsyncContext<object>()
+
+// set inside transaction() and batch() so reads there see their own writes,
+// module level since storage loads async and a server may batch right away
+const primaryContext = createAsyncContext<true>()
+
+function sumPoolStats(...all: Array<PoolStats | null>): PoolStats | null {
+  const reporting = all.filter((stats) => stats !== null)
+  if (!reporting.length) return null
+  return {
+    total: reporting.reduce((sum, stats) => sum + stats.total, 0),
+    idle: reporting.reduce((sum, stats) => sum + stats.idle, 0),
+    waiting: reporting.reduce((sum, stats) => sum + stats.waiting, 0),
+  }
+}
+
+/**
+ * Zero's push protocol has an optional `data` on successful mutation results,
+ * fill it with what each committed mutator returned.
+ */
+function addMutationResults<R extends Record<string, any>>(
+  response: R,
+  results: Map<string, unknown>
+): R {
+  if (!results.size || !Array.isArray(response.mutations)) {
+    return response
+  }
+
+  return {
+    ...response,
+    mutations: response.mutations.map((mutation: any) => {
+      const key = `${mutation.id.clientID}:${mutation.id.id}`
+      if (!results.has(key) || 'error' in mutation.result) {
+        return mutation
+      }
+      // only JSON survives the trip, drop anything that doesn't serialize
+      let data: unknown
+      try {
+        data = JSON.parse(JSON.stringify(results.get(key)) ?? 'null')
+      } catch {
+        return mutation
+      }
+      return { ...mutation, result: { ...mutation.result, data } }
+    }),
+  }
+}
+
+export type CloseSummary = {
+  /** true if all pending work finished before the timeout */
+  drained: boolean
+  /** true if the pools on-zero created ended before the timeout */
+  connectionsClosed: boolean
+  /** push/pull requests and mutate calls still running when the timeout hit */
+  pendingRequests: number
+  /** async tasks still running when the timeout hit */
+  pendingTasks: number
+  durationMs: number
+}
+
+export type DatabaseHealth = {
+  ok: boolean
+  /** round trip of a trivial query, null when it failed */
+  latencyMs: number | null
+  error?: string
+}
+
+export type HealthStatus = {
+  /**
+   * false while closing, when the primary or a replica can't be reached, or
+   * when verifySchemaOnStart found drift
+   */
+  ready: boolean
+  closing: boolean
+  database: DatabaseHealth
+  replicas: DatabaseHealth[]
+  /** connections across primary, replica and tenant pools */
+  pool: PoolStats | null
+  /** most recent error an idle pool connection emitted, these are only logged otherwise */
+  lastPoolError: { message: string; at: string } | null
+  pendingRequests: number
+  pendingAsyncTasks: number
+  /** tenants with an open connection */
+  tenants: number
+  /** ping of each connected tenant by id, reported but not part of `ready` */
+  tenantDatabases: Record<string, DatabaseHealth>
+  queriesRegistered: boolean
+  /** tables with mutation permissions registered */
+  permissions: string[]
+  /** result of the last verifySchema(), null if it never ran */
+  schema: SchemaDiff | null
+}
+
+export class ZeroServerClosedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ZeroServerClosedError'
   }
 }
 
@@ -78,6 +293,8 @@ export function createZeroServer<
 >({
   createServerActions,
   database,
+  db,
+  pool: poolOptions,
   schema,
   models,
   queries,
@@ -85,12 +302,39 @@ export function createZeroServer<
   validateQuery,
   validateMutation,
   defaultAllowAdminRole = 'all',
+  preInsertPermissions,
   defaultMutateAuthData = {} as MutateAuthData,
-}: {
+  outbox: outboxOptions,
+  idempotency: idempotencyOptions,
+  mutationTimeoutMs,
+  logger,
+  tracer,
+  rateLimits,
+  rateLimitStore,
+  tenants,
+  replicas,
+  verifySchemaOnStart,
+  onMutationStart,
+  onMutationSuccess,
+  onMutationError,
+}: MutationHooks & {
+  /**
+   * The DB connection string, same as ZERO_UPSTREAM_DB.
+   * Optional when passing a pre-built client via `db`.
+   */
+  database?: string
   /**
-   * The DB connection string, same as ZERO_UPSTREAM_DB
+   * Use an existing database client instead of creating a pg Pool:
+   *   db: { type: 'pg', pool }
+   *   db: { type: 'postgres', sql }
+   *   db: { type: 'pglite', db: pglite }
+   *   db: { type: 'custom', database }
    */
-  database: string
+  db?: DatabaseAdapter
+  /**
+   * Tuning for the pg Pool created from `database`, ignored when passing `db`.
+   */
+  pool?: PoolOptions
   schema: Schema
   models: Models
   createServerActions: () => ServerActions
@@ -118,46 +362,387 @@ export function createZeroServer<
    * - 'off': admin has no special bypass
    */
   defaultAllowAdminRole?: AdminRoleMode
+  /**
+   * Check insert and upsert permissions against the incoming row before
+   * writing it. Conditions on the row's own columns run in memory, exists()
+   * still queries. Trees that can't be evaluated fall back to checking after.
+   */
+  preInsertPermissions?: boolean
   /**
    * Default authData used by zeroServer.mutate when no authData is provided
    * and none is available from mutation context or auth scope.
    * Defaults to {}.
    */
   defaultMutateAuthData?: MutateAuthData
+  /**
+   * Durable jobs for side effects that must not get lost. Mutators call
+   * `ctx.server.outbox.enqueue(name, payload)` which writes the job in the
+   * mutation transaction, then `zeroServer.outbox.start()` runs them with
+   * retries and backoff. Create the table with `zeroServer.outbox.createTable()`
+   * or add `zeroServer.outbox.createTableSQL` to your migrations.
+   */
+  outbox?: OutboxOptions
+  /**
+   * Enables `idempotencyKey` in zeroServer.mutate options. Keys live in an
+   * on-zero table written in the mutation transaction, create it with
+   * `zeroServer.idempotency.createTable()` or `createTableSQL`.
+   */
+  idempotency?: true | IdempotencyOptions
+  /**
+   * Default timeout for server mutators, defaults to one minute. Override per
+   * mutator with mutations(..., { timeoutMs: { send: 5_000 } }). Timed out
+   * mutators throw MutatorTimeoutError and get ctx.signal aborted.
+   */
+  mutationTimeoutMs?: number
+  /**
+   * Structured logger for on-zero's internal logs, pino-compatible so
+   * `logger: pino()` works. Defaults to console.
+   */
+  logger?: Logger
+  /**
+   * OpenTelemetry-compatible tracer, e.g. trace.getTracer('on-zero'). Adds
+   * nested spans for push/pull requests, mutators, validation, permission
+   * checks and async tasks.
+   */
+  tracer?: Tracer
+  /**
+   * Per-user limits for push requests, keyed by model.mutator:
+   *   rateLimits: { 'message.send': { perUser: '30/min' } }
+   * Over the limit a mutation fails with RateLimitError.
+   */
+  rateLimits?: RateLimits
+  /**
+   * Where rate limit state lives, defaults to in-memory token buckets.
+   * Pass a shared store when running more than one server process.
+   */
+  rateLimitStore?: RateLimitStore
+  /**
+   * Routes each request and zeroServer call to a tenant's own database or
+   * postgres schema, chosen by `resolveTenant(authData, request)`. Tenant
+   * connections are created lazily and ended once idle. Can't be combined
+   * with `outbox` or `idempotency`, those only use the server's own database.
+   */
+  tenants?: TenantOptions
+  /**
+   * Read replicas for query(), runQuery(), batchQuery and the server run()
+   * helper, as connection strings (tuned with `pool`) or adapters. Reads
+   * are spread round-robin; anything inside a mutation, batch() or
+   * transaction() stays on the primary.
+   */
+  replicas?: Array<string | DatabaseAdapter>
+  /**
+   * Compares `schema` with the database's information_schema at startup. On
+   * drift it logs the diff, health() turns unready and push/pull requests
+   * fail with SchemaDriftError instead of failing halfway at runtime.
+   */
+  verifySchemaOnStart?: boolean
 }) {
+  // jobs and keys live in the server's own database, written from a tenant's
+  // transaction they'd land where the worker and purgeExpired never look
+  if (tenants && (outboxOptions || idempotencyOptions)) {
+    const features = [outboxOptions && 'outbox', idempotencyOptions && 'idempotency']
+      .filter(Boolean)
+      .join(' and ')
+    throw new Error(
+      `[on-zero] tenants can't be combined with ${features}, they only run against the server's own database`
+    )
+  }
+
+  if (logger) setLogger(logger)
+  if (tracer) setTracer(tracer)
   setSchema(schema)
   setEnvironment('server')
 
-  const dbString = assertString(database, `createZeroServer "database"`)
+  let lastPoolError: HealthStatus['lastPoolError'] = null
 
-  const pool = new Pool({
-    connectionString: dbString,
-    // handle self-signed certificates in production
-    ssl: dbString.includes('sslmode=require') ? { rejectUnauthorized: false } : undefined,
+  const resolvedDb = createDatabase({
+    schema,
+    database,
+    db,
+    pool: poolOptions,
+    onPoolError(kind, error) {
+      lastPoolError = { message: error.message, at: new Date().toISOString() }
+      getLogger().error({ err: error }, `[on-zero] ${kind} error`)
+    },
   })
 
-  // prevent unhandled 'error' events from crashing the process
-  // when postgres kills idle-in-transaction connections
-  pool.on('error', (error) => {
-    console.error(`[on-zero] pool error`, error.message)
-  })
-  pool.on('connect', (client) => {
-    client.on('error', (error) => {
-      console.error(`[on-zero] client error`, error.message)
+  const tenantRegistry = tenants
+    ? createTenantRegistry({
+        idleTimeoutMs: tenants.idleTimeoutMs,
+        maxTenants: tenants.maxTenants,
+        connect(config) {
+          const tenantDb = createDatabase({
+            schema,
+            database: config.database ?? database,
+            db: config.db,
+            pool: { ...tenants.pool, ...config.pool, searchPath: config.searchPath },
+            onPoolError(kind, error) {
+              getLogger().error(
+                { tenant: config.id, err: error },
+                `[on-zero] ${kind} error`
+              )
+            },
+          })
+          return {
+            id: config.id,
+            zeroDb: timeTransactions(tenantDb.zeroDb),
+            query: tenantDb.query,
+            stats: tenantDb.stats,
+            end: tenantDb.end,
+          }
+        },
+        onEvictError(tenant, err) {
+          getLogger().warn({ tenant, err }, `[on-zero] failed to close idle tenant`)
+        },
+      })
+    : undefined
+
+  const replicaDbs = (replicas ?? []).map((replica) =>
+    createDatabase({
+      schema,
+      ...(typeof replica === 'string'
+        ? { database: replica, pool: poolOptions }
+        : { db: replica }),
+      onPoolError(kind, error) {
+        lastPoolError = { message: error.message, at: new Date().toISOString() }
+        getLogger().error({ err: error }, `[on-zero] replica ${kind} error`)
+      },
     })
-  })
+  )
+
+  const getPoolStats = () =>
+    sumPoolStats(
+      resolvedDb.stats(),
+      ...replicaDbs.map((replica) => replica.stats()),
+      tenantRegistry?.stats() ?? null
+    )
+
+  const metrics = createServerMetrics({ poolStats: getPoolStats })
+
+  // times every transaction, including the ones PushProcessor opens
+  function timeTransactions(db: Database<any>) {
+    const timed: Database<any> = Object.create(db)
+    timed.transaction = async (callback, transactionInput) => {
+      const start = performance.now()
+      let outcome = 'rollback'
+      try {
+        const result = await db.transaction(callback, transactionInput)
+        outcome = 'commit'
+        return result
+      } finally {
+        metrics.transactionDuration.observe(
+          { outcome },
+          (performance.now() - start) / 1000
+        )
+      }
+    }
+    return timed
+  }
+
+  const zeroDb = timeTransactions(resolvedDb.zeroDb)
+
+  // the selected tenant's database, or the server's own
+  function getZeroDb() {
+    return currentTenant()?.zeroDb ?? zeroDb
+  }
 
-  const zeroDb = zeroNodePg(schema, pool)
+  const replicaZeroDbs = replicaDbs.map((replica) => timeTransactions(replica.zeroDb))
+  let nextReplica = 0
+
+  function getReadDb() {
+    if (!replicaZeroDbs.length || currentTenant() || primaryContext.get()) {
+      return getZeroDb()
+    }
+    return replicaZeroDbs[nextReplica++ % replicaZeroDbs.length]!
+  }
+
+  /**
+   * Runs fn against the tenant resolveTenant picks. Nested calls (a mutate
+   * inside a push, transaction inside a mutator) keep the outer tenant.
+   */
+  async function withTenant<T>(
+    authData: AuthData | null,
+    request: Request | undefined,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    if (!tenants || !tenantRegistry || currentTenant()) {
+      return fn()
+    }
+    const config = await tenants.resolveTenant(authData, request)
+    return config ? tenantRegistry.run(config, fn) : fn()
+  }
+
+  const outbox = outboxOptions
+    ? createOutbox({ ...outboxOptions, database: resolvedDb })
+    : undefined
+
+  const idempotency = idempotencyOptions
+    ? createIdempotency({
+        ...(idempotencyOptions === true ? {} : idempotencyOptions),
+        database: resolvedDb,
+      })
+    : undefined
 
   const permissions = createPermissions<Schema>({
     environment: 'server',
     schema,
     adminRoleMode: defaultAllowAdminRole,
+    preInsert: preInsertPermissions,
+    onDenied(table) {
+      metrics.permissionDenials.inc({ table })
+    },
   })
 
-  const processor = new PushProcessor(zeroDb)
+  // parse upfront so a typo in a rate fails at startup, not on first push
+  if (rateLimits) {
+    for (const rule of Object.values(rateLimits)) parseRate(rule.perUser)
+  }
+  const limiterStore = rateLimits
+    ? (rateLimitStore ?? createMemoryRateLimitStore())
+    : undefined
 
-  const handleMutationRequest = async ({
+  const mutationHooks: MutationHooks = {
+    onMutationStart,
+    onMutationSuccess,
+    onMutationError(event) {
+      metrics.mutations.inc({
+        model: event.modelName,
+        mutator: event.mutatorName,
+        outcome: event.errorKind,
+      })
+      onMutationError?.(event)
+    },
+  }
+
+  // successes only count once their transaction commits, errors roll it back anyway
+  function countResolvedMutators(
+    effects: TransactionEffects,
+    outcome: 'success' | 'rollback'
+  ) {
+    for (const { modelName, mutatorName } of effects.resolvedMutators) {
+      metrics.mutations.inc({ model: modelName, mutator: mutatorName, outcome })
+    }
+  }
+
+  let lastSchemaDiff: SchemaDiff | null = null
+  let startupSchemaCheck: Promise<SchemaDiff> | undefined
+
+  /**
+   * Compares the zero schema with the database and returns a structured diff,
+   * e.g. to fail CI: `if (!(await zeroServer.verifySchema()).ok) exit(1)`.
+   * Pass `tenant` to check a tenant's database or schema instead, those
+   * aren't checked at startup.
+   */
+  async function verifySchema({
+    tenant,
+  }: { tenant?: TenantConfig } = {}): Promise<SchemaDiff> {
+    if (tenant) {
+      if (!tenantRegistry) {
+        throw new Error(
+          `[on-zero] verifySchema got a tenant but tenants isn't configured`
+        )
+      }
+      const diff = await tenantRegistry.run(tenant, () =>
+        verifyDatabaseSchema({ schema, database: currentTenant()! })
+      )
+      if (!diff.ok) {
+        getLogger().error(
+          { tenant: tenant.id, issues: diff.issues },
+          `[on-zero] schema drift detected for tenant ${tenant.id}:\n${formatSchemaDiff(diff)}`
+        )
+      }
+      return diff
+    }
+
+    const diff = await verifyDatabaseSchema({ schema, database: resolvedDb })
+    lastSchemaDiff = diff
+    // a passing re-check after a fix lets requests through again
+    startupSchemaCheck = Promise.resolve(diff)
+    if (!diff.ok) {
+      getLogger().error(
+        { issues: diff.issues },
+        `[on-zero] schema drift detected:\n${formatSchemaDiff(diff)}`
+      )
+    }
+    return diff
+  }
+
+  function startSchemaCheck() {
+    startupSchemaCheck = verifySchema()
+    startupSchemaCheck.catch((err) => {
+      // retried on the next request
+      startupSchemaCheck = undefined
+      getLogger().error({ err }, `[on-zero] schema verification failed`)
+    })
+    return startupSchemaCheck
+  }
+
+  async function ensureSchemaVerified() {
+    if (!verifySchemaOnStart) return
+    const diff = await (startupSchemaCheck ?? startSchemaCheck())
+    if (!diff.ok) {
+      throw new SchemaDriftError(diff)
+    }
+  }
+
+  if (verifySchemaOnStart) {
+    startSchemaCheck()
+  }
+
+  // in-flight work that close() waits for
+  const pendingRequests = createPendingWork()
+  const pendingTasks = createPendingWork()
+  const serverToken = {}
+  let closing: Promise<CloseSummary> | null = null
+  let closed = false
+
+  // calls made by work that is still draining go through, anything new is rejected
+  function ensureOpen(name: string) {
+    if (closed || (closing && trackedWork.get() !== serverToken)) {
+      throw new ZeroServerClosedError(`[on-zero] server is closing, rejected ${name}`)
+    }
+  }
+
+  function track<T>(
+    work: ReturnType<typeof createPendingWork>,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const promise = work.track(trackedWork.run(serverToken, fn))
+    // keeps the tenant these run against connected until they finish
+    tenantRegistry?.track(promise)
+    return promise
+  }
+
+  function runAsyncTasks(authData: AuthData | null, tasks: AsyncAction[]): Promise<void> {
+    return track(pendingTasks, () =>
+      Promise.all(
+        tasks.map((task) =>
+          withSpan('on-zero.async-task', { authId: authData?.id }, () =>
+            runWithAuthScope(authData, task)
+          ).catch((err) => {
+            metrics.asyncTaskFailures.inc()
+            throw err
+          })
+        )
+      ).then(() => {})
+    )
+  }
+
+  const handleMutationRequest = async (args: {
+    authData: AuthData | null
+    request: Request
+    skipAsyncTasks?: boolean
+  }) => {
+    ensureOpen('push')
+    return track(pendingRequests, () =>
+      withSpan('on-zero.push', { authId: args.authData?.id }, async () => {
+        await ensureSchemaVerified()
+        return withTenant(args.authData, args.request, () => processMutationRequest(args))
+      })
+    )
+  }
+
+  const processMutationRequest = async ({
     authData,
     request,
     skipAsyncTasks,
@@ -167,10 +752,30 @@ export function createZeroServer<
     skipAsyncTasks?: boolean
   }) => {
     // since mutations do DB work in transaction, avoid any async tasks during
+    // and only keep the ones from mutations that actually committed
     const asyncTasks: AsyncAction[] = []
+    // mutator return values by clientID:mutationID, sent back as result data
+    const results = new Map<string, unknown>()
+
+    const processor = new PushProcessor(
+      trackTransactionEffects(getZeroDb(), {
+        onCommit(effects, input) {
+          countResolvedMutators(effects, 'success')
+          asyncTasks.push(...getCommitTasks(effects))
+          if (input && effects.result !== undefined) {
+            results.set(`${input.clientID}:${input.mutationID}`, effects.result)
+          }
+        },
+        onRollback(effects, error) {
+          countResolvedMutators(effects, 'rollback')
+          track(pendingTasks, () =>
+            runWithAuthScope(authData, () => runRollbackEffects(effects, error))
+          )
+        },
+      })
+    )
 
     const mutators = createMutators({
-      asyncTasks,
       can: permissions.can,
       createServerActions,
       environment: 'server',
@@ -178,18 +783,23 @@ export function createZeroServer<
       authData,
       validateMutation,
       mutationValidators,
+      outbox,
+      hooks: mutationHooks,
+      timeoutMs: mutationTimeoutMs,
+      rateLimits,
+      rateLimitStore: limiterStore,
     })
 
-    // @ts-expect-error type is ok but config in monorepo
-    const response = await processor.process(mutators, request)
+    const response = addMutationResults(
+      await processor.process(mutators, request),
+      results
+    )
 
     // now finish
     if (!skipAsyncTasks && asyncTasks.length) {
-      Promise.all(asyncTasks.map((task) => runWithAuthScope(authData, task))).catch(
-        (err) => {
-          console.error(`[push] async tasks failed`, err)
-        }
-      )
+      runAsyncTasks(authData, asyncTasks).catch((err) => {
+        getLogger().error({ authId: authData?.id, err }, `[push] async tasks failed`)
+      })
     }
 
     return {
@@ -198,7 +808,20 @@ export function createZeroServer<
     }
   }
 
-  const handleQueryRequest = async ({
+  const handleQueryRequest = async (args: {
+    authData: AuthData | null
+    request: Request
+  }) => {
+    ensureOpen('pull')
+    return track(pendingRequests, () =>
+      withSpan('on-zero.pull', { authId: args.authData?.id }, async () => {
+        await ensureSchemaVerified()
+        return withTenant(args.authData, args.request, () => processQueryRequest(args))
+      })
+    )
+  }
+
+  const processQueryRequest = async ({
     authData,
     request,
   }: {
@@ -220,13 +843,23 @@ export function createZeroServer<
             // per-model permission queries registered by on-zero at runtime
             if (name.startsWith('permission.')) {
               const table = name.slice('permission.'.length)
-              const { objOrId } = args as {
+              const { objOrId, action = 'update' } = args as {
                 objOrId: string | Record<string, any>
+                action?: PermissionAction
               }
-              const perm = getMutationsPermissions(table)
-              if (!perm) {
+              if (!getMutationsPermissions(table)) {
                 throw new Error(`[permission] no permission defined for table: ${table}`)
               }
+              if (!isPermissionAction(action)) {
+                throw new Error(`[permission] unknown action: ${String(action)}`)
+              }
+              const perm = getActionPermission(table, action)
+              if (!perm) {
+                // no where for this action denies it
+                return (getZQL() as any)[table]
+                  .where((eb: any) => eb.cmpLit(true, '=', false))
+                  .one()
+              }
               // wrap with setEvaluatingPermission so serverWhere evaluates
               // even when environment is 'client' (SSR hydration)
               setEvaluatingPermission(true)
@@ -252,6 +885,8 @@ export function createZeroServer<
               validateQuery({ authData, queryName: name, params: args })
             }
 
+            metrics.queryRequests.inc({ query: name })
+
             const query = (mustGetQuery as any)(queries, name)
             return query.fn({ args, ctx: authData })
           },
@@ -265,28 +900,15 @@ export function createZeroServer<
     }
   }
 
-  async function runMutate(
-    modelName: string,
-    mutatorName: string,
-    mutatorArg: unknown,
-    options?: MutateOptions
-  ) {
-    let authData = options?.authData
-
-    // auto-resolve authData from mutation context or auth scope
-    if (!authData) {
-      const scoped = getScopedAuthData()
-      if (scoped) {
-        authData = scoped as MutateAuthData
-      }
-    }
-
-    const asyncTasks: Array<() => Promise<void>> = []
+  // auto-resolve authData from mutation context or auth scope
+  function resolveMutateAuthData(authData?: MutateAuthData) {
+    return authData ?? (getScopedAuthData() as MutateAuthData | null) ?? undefined
+  }
 
-    const mutators = createMutators({
+  function createServerMutators(authData?: MutateAuthData) {
+    return createMutators({
       models,
       environment: 'server',
-      asyncTasks,
       authData: {
         ...defaultMutateAuthData,
         ...authData,
@@ -295,31 +917,98 @@ export function createZeroServer<
       can: permissions.can,
       validateMutation,
       mutationValidators,
-    })
-
-    const modelMutators = mutators[modelName as keyof typeof mutators] as Record<
+      outbox,
+      hooks: mutationHooks,
+      timeoutMs: mutationTimeoutMs,
+    }) as Record<
       string,
-      (tx: Transaction, arg?: unknown) => Promise<void>
+      Record<string, (tx: Transaction, arg?: unknown) => Promise<unknown>>
     >
-    const mutator = modelMutators[mutatorName]
+  }
 
-    await transaction(async (tx) => {
-      await mutator(tx, mutatorArg)
+  // when nested inside another mutation this reuses its transaction, so
+  // effects follow the outer mutation and nothing is collected here
+  function trackMutateEffects(resolvedAuth: AuthData | null, asyncTasks: AsyncAction[]) {
+    return trackTransactionEffects(getZeroDb(), {
+      onCommit(effects) {
+        countResolvedMutators(effects, 'success')
+        asyncTasks.push(...getCommitTasks(effects))
+      },
+      onRollback(effects, error) {
+        countResolvedMutators(effects, 'rollback')
+        track(pendingTasks, () =>
+          runWithAuthScope(resolvedAuth, () => runRollbackEffects(effects, error))
+        )
+      },
     })
+  }
 
-    if (asyncTasks.length) {
-      const resolvedAuth = authData ?? null
-      const promise = Promise.all(
-        asyncTasks.map((t) => runWithAuthScope(resolvedAuth, t))
+  async function finishMutateEffects(
+    resolvedAuth: AuthData | null,
+    asyncTasks: AsyncAction[],
+    awaitEffects: boolean | undefined,
+    logFields: LogFields
+  ) {
+    if (!asyncTasks.length) return
+    const promise = runAsyncTasks(resolvedAuth, asyncTasks)
+    if (awaitEffects) {
+      await promise
+    } else {
+      promise.catch((err) => {
+        getLogger().error(
+          { ...logFields, authId: resolvedAuth?.id, err },
+          `[mutate] async tasks failed`
+        )
+      })
+    }
+  }
+
+  async function runMutate(
+    modelName: string,
+    mutatorName: string,
+    mutatorArg: unknown,
+    options?: MutateOptions
+  ) {
+    const authData = resolveMutateAuthData(options?.authData)
+    const asyncTasks: AsyncAction[] = []
+    const resolvedAuth = authData ?? null
+
+    const mutator = createServerMutators(authData)[modelName]![mutatorName]!
+    const trackedDb = trackMutateEffects(resolvedAuth, asyncTasks)
+
+    const idempotencyKey = options?.idempotencyKey
+    if (idempotencyKey && !idempotency) {
+      throw new Error(
+        `[idempotency] not configured, pass idempotency to createZeroServer to use idempotencyKey`
       )
-      if (options?.awaitEffects) {
-        await promise
-      } else {
-        promise.catch((err) => {
-          console.error(`[mutate] async tasks failed`, err)
+    }
+
+    // replays resolve with the result stored by the first run
+    let result: unknown
+
+    await runTransaction(trackedDb, async (tx) => {
+      if (idempotency && idempotencyKey) {
+        const claim = await idempotency.claim(tx, idempotencyKey, {
+          model: modelName,
+          mutator: mutatorName,
         })
+        if (claim.replay) {
+          result = claim.result
+          return
+        }
       }
-    }
+      result = await mutator(tx, mutatorArg)
+      if (idempotency && idempotencyKey) {
+        await idempotency.complete(tx, idempotencyKey, result)
+      }
+    })
+
+    await finishMutateEffects(resolvedAuth, asyncTasks, options?.awaitEffects, {
+      model: modelName,
+      mutator: mutatorName,
+    })
+
+    return result
   }
 
   // zeroServer.mutate.user.insert(user)
@@ -329,29 +1018,107 @@ export function createZeroServer<
         {},
         {
           get(_, mutatorName: string) {
-            return (arg: unknown, options?: MutateOptions) =>
-              runMutate(modelName, mutatorName, arg, options)
+            return async (arg: unknown, options?: MutateOptions) => {
+              ensureOpen(`mutate ${modelName}.${mutatorName}`)
+              return track(pendingRequests, () =>
+                withSpan(
+                  'on-zero.mutate',
+                  { model: modelName, mutator: mutatorName },
+                  () =>
+                    withTenant(
+                      resolveMutateAuthData(options?.authData) ?? null,
+                      undefined,
+                      () => runMutate(modelName, mutatorName, arg, options)
+                    )
+                )
+              )
+            }
           },
         }
       )
     },
   })
 
+  /**
+   * Runs several mutators in one transaction with permissions and validation
+   * applied to each. If any of them throws everything rolls back, async tasks
+   * only run once the whole batch commits:
+   *
+   *   await zeroServer.batch(async (m) => {
+   *     await m.server.insert(server)
+   *     await m.channel.insert({ id, serverId: server.id, name: 'general' })
+   *   }, { authData })
+   */
+  async function batch<R>(
+    fn: (mutate: ServerBatchMutate<Models>) => Promise<R>,
+    options?: BatchOptions
+  ): Promise<R> {
+    ensureOpen('batch')
+    return track(pendingRequests, () =>
+      withSpan('on-zero.batch', {}, async () => {
+        const authData = resolveMutateAuthData(options?.authData)
+        const asyncTasks: AsyncAction[] = []
+        const resolvedAuth = authData ?? null
+
+        return withTenant(resolvedAuth, undefined, async () => {
+          const mutators = createServerMutators(authData)
+          const trackedDb = trackMutateEffects(resolvedAuth, asyncTasks)
+
+          // reads made in fn have to see the batch's own writes
+          const result = await primaryContext.run(true, () =>
+            runTransaction(trackedDb, (tx) =>
+              fn(
+                mapObject(mutators, (modelMutators) =>
+                  mapObject(
+                    modelMutators,
+                    (mutator) => (arg?: unknown) => mutator(tx, arg)
+                  )
+                ) as ServerBatchMutate<Models>
+              )
+            )
+          )
+
+          await finishMutateEffects(resolvedAuth, asyncTasks, options?.awaitEffects, {
+            mutator: 'batch',
+          })
+
+          return result
+        })
+      })
+    )
+  }
+
   async function transaction<
     CB extends (tx: Transaction) => Promise<any>,
     Returns extends CB extends (tx: Transaction) => Promise<infer X> ? X : never,
   >(query: CB): Promise<Returns> {
+    // query() and runQuery() pass their authData through the query context
+    const authData = getScopedAuthData() ?? (isInQueryContext() ? queryAuthData() : null)
+    return withTenant(authData, undefined, () =>
+      primaryContext.run(true, () => runTransaction(getZeroDb(), query))
+    )
+  }
+
+  // read-only work, goes to a replica unless inside a mutation, batch() or transaction()
+  async function readTransaction<R>(query: (tx: Transaction) => Promise<R>): Promise<R> {
+    const authData = getScopedAuthData() ?? (isInQueryContext() ? queryAuthData() : null)
+    return withTenant(authData, undefined, () => runTransaction(getReadDb(), query))
+  }
+
+  async function runTransaction<
+    CB extends (tx: Transaction) => Promise<any>,
+    Returns extends CB extends (tx: Transaction) => Promise<infer X> ? X : never,
+  >(db: typeof zeroDb, query: CB): Promise<Returns> {
     try {
       if (isInZeroMutation()) {
         const { tx } = mutatorContext()
         return await query(tx)
       }
-      // @ts-expect-error type
-      const output = await zeroDb.transaction(query, dummyTransactionInput)
+      const output = await db.transaction(query, dummyTransactionInput)
       return output
     } catch (err) {
       if (!(err instanceof PermissionError)) {
-        console.error(`Error running transaction(): ${err}`)
+        getLogger().error({ err }, `[on-zero] transaction() failed`)
       }
       throw err
     }
@@ -362,7 +1129,7 @@ export function createZeroServer<
     authData?: AuthData | null
   ): Promise<HumanReadable<R>> {
     const run = () =>
-      transaction(async (tx) => {
+      readTransaction(async (tx) => {
         return tx.run(cb(getZQL()))
       }) as any
 
@@ -372,6 +1139,89 @@ export function createZeroServer<
     return run()
   }
 
+  /**
+   * Runs a named synced query the way a synced client would: the function is
+   * resolved through the `queries` registry, params go through its generated
+   * validator and `validateQuery`, and serverWhere permissions apply for the
+   * given authData:
+   *
+   *   const rows = await zeroServer.runQuery(latestNotifications, { limit: 20 }, { authData })
+   */
+  async function runQuery<TArg, TTable extends keyof Schema['tables'] & string, TReturn>(
+    fn: PlainQueryFn<TArg, Query<TTable, Schema, TReturn>>,
+    params: TArg,
+    options?: RunQueryOptions
+  ): Promise<HumanReadable<TReturn>> {
+    ensureOpen('runQuery')
+
+    if (!queries) {
+      throw new Error(
+        'No queries registered with createZeroServer. ' +
+          'Pass the syncedQueries registry to createZeroServer via the queries option.'
+      )
+    }
+
+    const queryName = getQueryName(fn)
+    if (!queryName) {
+      throw new Error(
+        `Query function '${fn?.name || 'anonymous'}' not registered. ` +
+          `Ensure it is exported from a queries file and included in the queries registry.`
+      )
+    }
+
+    const authData =
+      options?.authData !== undefined ? options.authData : (getScopedAuthData() ?? null)
+
+    // tracked so close() waits for it before ending the pools
+    return track(pendingRequests, () =>
+      withSpan(
+        'on-zero.query',
+        { query: queryName, authId: authData?.id },
+        () =>
+          runWithQueryContext({ authData: authData || ({} as AuthData) }, () => {
+            if (validateQuery) {
+              validateQuery({ authData, queryName, params })
+            }
+            const query = (mustGetQuery as any)(queries, queryName)
+            // fn validates args with the generated validator before building
+            const built = query.fn({ args: params, ctx: authData })
+            return readTransaction(async (tx) => tx.run(built))
+          }) as Promise<HumanReadable<TReturn>>
+      )
+    )
+  }
+
+  /**
+   * Evaluates each and/or/cmp/exists branch of a permission for one row, to
+   * see which part denied it. Pass a where or an action of the table's model:
+   *
+   *   const explanation = await zeroServer.explainPermission({
+   *     table: 'message',
+   *     where: 'delete',
+   *     objOrId: messageId,
+   *     authData,
+   *   })
+   *   console.info(formatPermissionExplanation(explanation))
+   */
+  async function explainPermission({
+    table,
+    where,
+    objOrId,
+    authData,
+  }: ExplainPermissionOptions): Promise<PermissionExplanation> {
+    const permissionWhere =
+      typeof where === 'string' ? getActionPermission(table, where) : where
+    if (!permissionWhere) {
+      throw new Error(`[permission] no ${where} permission defined for table: ${table}`)
+    }
+    // reads the primary like the permission checks in mutations do
+    return runWithAuthScope(authData, () =>
+      transaction((tx) =>
+        permissions.explainPermission(tx, authData, table, permissionWhere, objOrId)
+      )
+    )
+  }
+
   // register for global run() helper
   if (queries) {
     setCustomQueries(queries)
@@ -379,24 +1229,132 @@ export function createZeroServer<
 
   // server uses transaction-based execution
   setRunner((queryObj) => {
-    return transaction(async (tx) => {
+    return readTransaction(async (tx) => {
       return tx.run(queryObj)
     })
   })
 
-  // This is needed temporarily and will be cleaned up in the future.
-  const dummyTransactionInput: TransactionProviderInput = {
-    clientGroupID: 'unused',
-    clientID: 'unused',
-    mutationID: 42,
-    upstreamSchema: 'unused',
+  /**
+   * Stops accepting push/pull requests and mutate, batch and runQuery calls,
+   * waits for in-flight requests, mutations and async tasks to finish, stops
+   * outbox workers and ends the pools. `timeoutMs` bounds all of it.
+   */
+  function close({ timeoutMs = 10_000 }: { timeoutMs?: number } = {}) {
+    closing ||= (async () => {
+      const start = performance.now()
+      const remainingMs = () => Math.max(0, timeoutMs - (performance.now() - start))
+
+      const requestsDrained = await pendingRequests.drain(timeoutMs)
+      if (outbox) {
+        pendingTasks.track(outbox.stop())
+      }
+      const tasksDrained = await pendingTasks.drain(remainingMs())
+
+      // ending a pool waits for checked out clients, which can hang
+      closed = true
+      const connections = createPendingWork()
+      connections.track(
+        Promise.all([
+          tenantRegistry?.end(),
+          ...replicaDbs.map((replica) => replica.end()),
+          resolvedDb.end(),
+        ]).catch((err) => {
+          getLogger().error({ err }, `[on-zero] failed to close connections`)
+        })
+      )
+      const connectionsClosed = await connections.drain(remainingMs())
+
+      const summary: CloseSummary = {
+        drained: requestsDrained && tasksDrained,
+        connectionsClosed,
+        pendingRequests: pendingRequests.size,
+        pendingTasks: pendingTasks.size,
+        durationMs: Math.round(performance.now() - start),
+      }
+
+      if (!summary.drained) {
+        getLogger().warn(summary, `[on-zero] closed before pending work finished`)
+      } else if (!connectionsClosed) {
+        getLogger().warn(summary, `[on-zero] closed before connections ended`)
+      }
+
+      return summary
+    })()
+
+    return closing
+  }
+
+  // fetch-style handler for a /metrics route, renders Prometheus text format
+  function metricsHandler(_request?: Request): Response {
+    return new Response(metrics.toPrometheus(), {
+      headers: { 'content-type': 'text/plain; version=0.0.4; charset=utf-8' },
+    })
+  }
+
+  /**
+   * Pings the primary and replicas with a trivial query and reports pool
+   * usage, pending work and what's registered. `ready` is what a readiness
+   * probe should check.
+   */
+  async function health({ timeoutMs = 2_000 }: { timeoutMs?: number } = {}) {
+    const [primary, ...replicaHealth] = await Promise.all(
+      [resolvedDb, ...replicaDbs].map((target) => pingDatabase(target, timeoutMs))
+    )
+    const databaseHealth = primary!
+
+    const tenantDatabases = Object.fromEntries(
+      await Promise.all(
+        (tenantRegistry?.connections() ?? []).map(
+          async (tenant) => [tenant.id, await pingDatabase(tenant, timeoutMs)] as const
+        )
+      )
+    )
+
+    const status: HealthStatus = {
+      ready:
+        !closing &&
+        databaseHealth.ok &&
+        replicaHealth.every((r) => r.ok) &&
+        (!verifySchemaOnStart || !!lastSchemaDiff?.ok),
+      closing: !!closing,
+      database: databaseHealth,
+      replicas: replicaHealth,
+      pool: getPoolStats(),
+      lastPoolError,
+      pendingRequests: pendingRequests.size,
+      pendingAsyncTasks: pendingTasks.size,
+      tenants: tenantRegistry?.size ?? 0,
+      tenantDatabases,
+      queriesRegistered: !!queries,
+      permissions: [...getAllMutationsPermissions().keys()],
+      schema: lastSchemaDiff,
+    }
+
+    return status
+  }
+
+  // fetch-style handler for a readiness probe, 503 when not ready
+  async function healthHandler(_request?: Request): Promise<Response> {
+    const status = await health()
+    return Response.json(status, { status: status.ready ? 200 : 503 })
   }
 
   return {
+    close,
+    health,
+    healthHandler,
+    verifySchema,
     handleMutationRequest,
     handleQueryRequest,
     transaction,
     mutate,
+    batch,
     query,
+    runQuery,
+    explainPermission,
+    outbox,
+    idempotency,
+    metrics,
+    metricsHandler,
   }
 }
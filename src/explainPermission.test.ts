@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'vitest'
+
+import { explainCondition, formatPermissionExplanation } from './explainPermission'
+
+import type { Condition } from '@rocicorp/zero'
+
+const cmp = (name: string, value: string): Condition => ({
+  type: 'simple',
+  op: '=',
+  left: { type: 'column', name },
+  right: { type: 'literal', value },
+})
+
+const isMember: Condition = {
+  type: 'correlatedSubquery',
+  op: 'EXISTS',
+  related: {
+    correlation: { parentField: ['channelId'], childField: ['channelId'] },
+    subquery: { table: 'member', alias: 'zsubq_members', where: cmp('userId', 'u2') },
+  },
+}
+
+describe('explainCondition', () => {
+  test('marks each branch and prints the tree', async () => {
+    const condition: Condition = {
+      type: 'and',
+      conditions: [
+        cmp('id', 'm1'),
+        { type: 'or', conditions: [cmp('authorId', 'u2'), isMember] },
+      ],
+    }
+
+    // stands in for the per-branch query, only the row lookup passes
+    const explanation = await explainCondition(condition, async (branch) => {
+      return branch.type === 'simple' && branch.right.type === 'literal'
+        ? branch.right.value === 'm1'
+        : false
+    })
+
+    expect(explanation.passed).toBe(false)
+    expect(explanation.children?.[1]?.children?.[1]).toEqual({
+      kind: 'exists',
+      label: 'exists members where userId = "u2"',
+      passed: false,
+    })
+    expect(formatPermissionExplanation(explanation)).toBe(
+      [
+        '✗ and',
+        '  ✓ id = "m1"',
+        '  ✗ or',
+        '    ✗ authorId = "u2"',
+        '    ✗ exists members where userId = "u2"',
+      ].join('\n')
+    )
+  })
+})
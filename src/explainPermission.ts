@@ -0,0 +1,94 @@
+import type { Condition, SimpleCondition } from '@rocicorp/zero'
+
+// one node of a serverWhere condition tree and whether the row passed it
+export type PermissionExplanation = {
+  kind: 'and' | 'or' | 'cmp' | 'exists'
+  label: string
+  passed: boolean
+  children?: PermissionExplanation[]
+}
+
+/**
+ * Walks a condition tree and asks `check` about every node, so nested and/or
+ * branches show which part denied instead of just the final answer.
+ */
+export async function explainCondition(
+  condition: Condition,
+  check: (condition: Condition) => Promise<boolean>
+): Promise<PermissionExplanation> {
+  const passed = await check(condition)
+
+  if (condition.type === 'and' || condition.type === 'or') {
+    const children: PermissionExplanation[] = []
+    for (const child of condition.conditions) {
+      children.push(await explainCondition(child, check))
+    }
+    return { kind: condition.type, label: condition.type, passed, children }
+  }
+
+  return {
+    kind: condition.type === 'simple' ? 'cmp' : 'exists',
+    label: describeCondition(condition),
+    passed,
+  }
+}
+
+function formatValue(position: SimpleCondition['left'] | SimpleCondition['right']) {
+  switch (position.type) {
+    case 'column':
+      return position.name
+    case 'literal':
+      return JSON.stringify(position.value)
+    default:
+      return `${position.anchor}.${[position.field].flat().join('.')}`
+  }
+}
+
+// relationship names are kept in the subquery alias
+const subqueryPrefix = /^zsubq_(zhidden_)?/
+
+export function describeCondition(condition: Condition): string {
+  switch (condition.type) {
+    case 'simple': {
+      const { left, right, op } = condition
+      // what buildPermissionQuery returns for admins, true and false
+      if (left.type === 'literal' && right.type === 'literal' && op === '=') {
+        return left.value === right.value ? 'always' : 'never'
+      }
+      return `${formatValue(left)} ${op} ${formatValue(right)}`
+    }
+    case 'correlatedSubquery': {
+      const { subquery } = condition.related
+      const name = (subquery.alias ?? subquery.table).replace(subqueryPrefix, '')
+      const exists = condition.op === 'EXISTS' ? 'exists' : 'not exists'
+      return subquery.where
+        ? `${exists} ${name} where ${describeCondition(subquery.where)}`
+        : `${exists} ${name}`
+    }
+    default:
+      return `${condition.type}(${condition.conditions.map(describeCondition).join(', ')})`
+  }
+}
+
+/**
+ * Renders an explanation as an indented tree for the terminal or logs:
+ *
+ *   ✗ and
+ *     ✓ id = "m1"
+ *     ✗ or
+ *       ✗ authorId = "u2"
+ *       ✗ exists members where userId = "u2"
+ */
+export function formatPermissionExplanation(
+  explanation: PermissionExplanation,
+  indent = 0
+): string {
+  const line = `${'  '.repeat(indent)}${explanation.passed ? '✓' : '✗'} ${explanation.label}`
+  if (!explanation.children?.length) return line
+  return [
+    line,
+    ...explanation.children.map((child) =>
+      formatPermissionExplanation(child, indent + 1)
+    ),
+  ].join('\n')
+}
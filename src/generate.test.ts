@@ -232,6 +232,9 @@ export const mutate = mutations(schema, perm, {
     expect(content).toContain('archive')
     expect(content).toContain('v.object')
     expect(content).toContain('v.string()')
+    expect(content).toContain(
+      'export type MutationResults = GetMutationResults<typeof models>'
+    )
   })
 
   test('generates CRUD validators from schema columns', async () => {
@@ -270,6 +273,43 @@ export const mutate = mutations(schema, perm)
     expect(content).toContain('delete:')
   })
 
+  test('limits update validators to writable columns', async () => {
+    writeFileSync(
+      join(testDir, 'models/post.ts'),
+      `
+import { table, string, boolean } from 'on-zero'
+import { mutations, serverWhere } from 'on-zero'
+
+export const schema = table('post').columns({
+  id: string(),
+  content: string(),
+  authorId: string(),
+  pinned: boolean(),
+}).primaryKey('id')
+
+const perm = serverWhere('post', () => true)
+
+export const mutate = mutations(schema, perm, {}, {
+  writable: { content: perm, pinned: perm },
+})
+`
+    )
+
+    await generate({ dir: testDir, silent: true })
+
+    const content = readFileSync(join(testDir, 'generated/syncedMutations.ts'), 'utf-8')
+    const update = content.slice(content.indexOf('update:'), content.indexOf('delete:'))
+
+    expect(update).toContain('v.strictObject')
+    expect(update).toContain('content:')
+    expect(update).toContain('pinned:')
+    expect(update).not.toContain('authorId')
+    // upsert may update, so it's strict too but still takes every column
+    const upsert = content.slice(content.indexOf('upsert:'), content.indexOf('update:'))
+    expect(upsert).toContain('v.strictObject')
+    expect(upsert).toContain('authorId')
+  })
+
   test('treats models without export const mutate as empty mutations', async () => {
     writeFileSync(
       join(testDir, 'models/readonly.ts'),
@@ -243,9 +243,11 @@ ${queriesObject}
 }
 
 // column type in schema → valibot validator
-type SchemaColumn = {
+export type SchemaColumn = {
   type: 'string' | 'number' | 'boolean' | 'json' | 'enum'
   optional: boolean
+  /** postgres column name from .from('...'), when it differs */
+  serverName?: string
 }
 
 type ExtractedMutation = {
@@ -424,6 +426,8 @@ type ModelMutations = {
   columns: Record<string, SchemaColumn> // populated when hasCRUD
   primaryKeys: string[]
   custom: ExtractedMutation[]
+  /** columns from the writable option, update only accepts these */
+  writableColumns?: string[]
 }
 
 function extractMutationsFromModel(
@@ -464,18 +468,36 @@ function extractMutationsFromModel(
   const args = call.arguments
 
   // determine overload
-  // 1-arg: mutations({ ... })
+  // 1-arg: mutations({ ... }) or mutations({ ... }, options)
   // 2-arg: mutations(schema, perm)
-  // 3-arg: mutations(schema, perm, { ... })
-  const hasCRUD = args.length >= 2
+  // 3-arg: mutations(schema, perm, { ... }) or with options as the 4th
+  const isBare = !!args[0] && ts.isObjectLiteralExpression(args[0])
+  const hasCRUD = !isBare && args.length >= 2
   let handlersArg: import('typescript').ObjectLiteralExpression | null = null
 
-  if (args.length === 1 && ts.isObjectLiteralExpression(args[0]!)) {
+  if (isBare) {
     handlersArg = args[0] as import('typescript').ObjectLiteralExpression
-  } else if (args.length === 3 && ts.isObjectLiteralExpression(args[2]!)) {
+  } else if (args.length >= 3 && ts.isObjectLiteralExpression(args[2]!)) {
     handlersArg = args[2] as import('typescript').ObjectLiteralExpression
   }
 
+  // mutations(schema, perm, handlers, { writable: { content: isAuthor } })
+  let writableColumns: string[] | undefined
+  const optionsArg = hasCRUD ? args[3] : undefined
+  if (optionsArg && ts.isObjectLiteralExpression(optionsArg)) {
+    for (const prop of optionsArg.properties) {
+      if (
+        ts.isPropertyAssignment(prop) &&
+        prop.name.getText(sourceFile) === 'writable' &&
+        ts.isObjectLiteralExpression(prop.initializer)
+      ) {
+        writableColumns = prop.initializer.properties
+          .map((column) => column.name?.getText(sourceFile).replace(/^['"]|['"]$/g, ''))
+          .filter((name): name is string => !!name)
+      }
+    }
+  }
+
   // extract schema columns for CRUD generation
   const columns: Record<string, SchemaColumn> = {}
   const primaryKeys: string[] = []
@@ -549,10 +571,11 @@ function extractMutationsFromModel(
     columns,
     primaryKeys,
     custom,
+    writableColumns,
   }
 }
 
-function extractSchemaColumns(
+export function extractSchemaColumns(
   ts: typeof import('typescript'),
   sourceFile: ReturnType<typeof ts.createSourceFile>,
   columns: Record<string, SchemaColumn>,
@@ -602,7 +625,8 @@ function parseColumnType(initText: string): SchemaColumn {
   else if (initText.startsWith('json(') || initText.startsWith('json<')) type = 'json'
   else if (initText.startsWith('enumeration(')) type = 'enum'
 
-  return { type, optional }
+  const serverName = initText.match(/\.from\(\s*['"]([^'"]+)['"]\s*\)/)?.[1]
+  return serverName ? { type, optional, serverName } : { type, optional }
 }
 
 function columnTypeToValibot(col: SchemaColumn): string {
@@ -642,7 +666,8 @@ function formatObjectKey(name: string): string {
 function schemaColumnsToValibot(
   columns: Record<string, SchemaColumn>,
   primaryKeys: string[],
-  mode: 'insert' | 'update' | 'delete'
+  mode: 'insert' | 'upsert' | 'update' | 'delete',
+  writableColumns?: string[]
 ): string {
   const entries: string[] = []
 
@@ -659,6 +684,8 @@ function schemaColumnsToValibot(
     // PKs required, rest optional
     for (const [name, col] of Object.entries(columns)) {
       const isPK = primaryKeys.includes(name)
+      // guarded models reject the columns they don't list
+      if (!isPK && writableColumns && !writableColumns.includes(name)) continue
       if (isPK) {
         entries.push(
           `${formatObjectKey(name)}: ${columnTypeToValibot({ ...col, optional: false })}`
@@ -670,13 +697,18 @@ function schemaColumnsToValibot(
       }
     }
   } else {
-    // insert: all columns as-is
+    // insert and upsert: all columns as-is
     for (const [name, col] of Object.entries(columns)) {
       entries.push(`${formatObjectKey(name)}: ${columnTypeToValibot(col)}`)
     }
   }
 
-  return `v.object({\n    ${entries.join(',\n    ')},\n  })`
+  // upsert may update too, so guarded models reject unknown columns there as well
+  const object =
+    (mode === 'update' || mode === 'upsert') && writableColumns
+      ? 'v.strictObject'
+      : 'v.object'
+  return `${object}({\n    ${entries.join(',\n    ')},\n  })`
 }
 
 function generateSyncedMutationsFile(modelMutations: ModelMutations[]) {
@@ -690,7 +722,7 @@ function generateSyncedMutationsFile(modelMutations: ModelMutations[]) {
 
       // CRUD validators from schema
       if (model.hasCRUD && Object.keys(model.columns).length > 0) {
-        for (const mode of ['insert', 'update', 'delete'] as const) {
+        for (const mode of ['insert', 'upsert', 'update', 'delete'] as const) {
           // skip if custom mutation overrides this CRUD op
           const hasCustomOverride = model.custom.some((m) => m.name === mode)
           if (hasCustomOverride) {
@@ -703,12 +735,12 @@ function generateSyncedMutationsFile(modelMutations: ModelMutations[]) {
             } else {
               // fall back to schema-derived
               entries.push(
-                `    ${mode}: ${schemaColumnsToValibot(model.columns, model.primaryKeys, mode)},`
+                `    ${mode}: ${schemaColumnsToValibot(model.columns, model.primaryKeys, mode, model.writableColumns)},`
               )
             }
           } else {
             entries.push(
-              `    ${mode}: ${schemaColumnsToValibot(model.columns, model.primaryKeys, mode)},`
+              `    ${mode}: ${schemaColumnsToValibot(model.columns, model.primaryKeys, mode, model.writableColumns)},`
             )
           }
         }
@@ -733,9 +765,15 @@ function generateSyncedMutationsFile(modelMutations: ModelMutations[]) {
 // mutation validators derived from model schemas and handler types
 import * as v from 'valibot'
 
+import type { MutationResults as GetMutationResults } from 'on-zero'
+import type { models } from './models'
+
 export const mutationValidators = {
 ${modelDefs}
 }
+
+// return values of each mutator, as resolved by zeroServer.mutate
+export type MutationResults = GetMutationResults<typeof models>
 `
 }
 
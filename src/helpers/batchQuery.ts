@@ -1,5 +1,7 @@
 import { sleep } from '@take-out/helpers'
 
+import { getLogger } from '../logger'
+
 import type { Query, Row } from '@rocicorp/zero'
 
 type ServerWithQuery = {
@@ -42,7 +44,10 @@ export function createBatchQuery(server: ServerWithQuery) {
       }
 
       if (iterations > stopAfter) {
-        console.error(`[batchQuery] ‼️ stopping batch, ran ${stopAfter} chunks`)
+        getLogger().warn(
+          { chunks: stopAfter },
+          `[batchQuery] stopping batch, ran ${stopAfter} chunks`
+        )
         break
       }
 
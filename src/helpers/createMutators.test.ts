@@ -0,0 +1,418 @@
+import { createSchema, string, table } from '@rocicorp/zero'
+import { describe, expect, test } from 'vitest'
+
+import { PermissionError } from '../createPermissions'
+import { consoleLogger, setLogger } from '../logger'
+import { mutations } from '../mutations'
+import { setSchema } from '../state'
+import {
+  createMutators,
+  isMutatorTimeoutError,
+  MutatorTimeoutError,
+} from './createMutators'
+import {
+  createMemoryRateLimitStore,
+  isRateLimitError,
+  parseRate,
+  RateLimitError,
+} from './rateLimit'
+
+import type { LogFields } from '../logger'
+import type { MutatorContext } from '../types'
+import type { MutationEvent } from './createMutators'
+
+const authData = { id: 'user-1' }
+
+const models = {
+  post: {
+    mutate: {
+      async publish() {},
+      async draft(_ctx: MutatorContext, { title }: { title: string }) {
+        return { id: 'd1', title }
+      },
+      async remove() {
+        throw new PermissionError('not allowed')
+      },
+      async explode() {
+        throw new Error('boom')
+      },
+    },
+  },
+}
+
+function setup() {
+  const events: Array<{ type: string } & Record<string, any>> = []
+
+  const mutators = createMutators({
+    environment: 'server',
+    authData,
+    can: async () => {},
+    models,
+    hooks: {
+      onMutationStart: (e) => events.push({ type: 'start', ...e }),
+      onMutationSuccess: (e) => events.push({ type: 'success', ...e }),
+      onMutationError: (e) => events.push({ type: 'error', ...e }),
+    },
+  }) as any
+
+  return { mutators, events }
+}
+
+describe('createMutators lifecycle hooks', () => {
+  test('fires start and success with model, mutator, auth and args', async () => {
+    const { mutators, events } = setup()
+
+    await mutators.post.publish({}, { id: 'p1' })
+
+    const expected: MutationEvent = {
+      modelName: 'post',
+      mutatorName: 'publish',
+      authData,
+      args: { id: 'p1' },
+    }
+    expect(events.map((e) => e.type)).toEqual(['start', 'success'])
+    expect(events[0]).toMatchObject(expected)
+    expect(events[1]!.durationMs).toBeGreaterThanOrEqual(0)
+  })
+
+  test('resolves with the mutator return value', async () => {
+    const { mutators } = setup()
+
+    expect(await mutators.post.draft({}, { title: 'hi' })).toEqual({
+      id: 'd1',
+      title: 'hi',
+    })
+  })
+
+  test('classifies permission errors', async () => {
+    const { mutators, events } = setup()
+
+    await expect(mutators.post.remove({}, { id: 'p1' })).rejects.toThrow('not allowed')
+
+    expect(events[1]).toMatchObject({ type: 'error', errorKind: 'permission' })
+  })
+
+  test('classifies validation errors from validateMutation', async () => {
+    const events: any[] = []
+    const mutators = createMutators({
+      environment: 'server',
+      authData,
+      can: async () => {},
+      models,
+      validateMutation: () => {
+        throw new Error('invalid')
+      },
+      hooks: {
+        onMutationError: (e) => events.push(e),
+      },
+    }) as any
+
+    await expect(mutators.post.publish({}, { id: 'p1' })).rejects.toThrow('invalid')
+
+    expect(events[0].errorKind).toBe('validation')
+  })
+
+  test('classifies other errors and survives throwing hooks', async () => {
+    const events: any[] = []
+    const mutators = createMutators({
+      environment: 'server',
+      authData,
+      can: async () => {},
+      models,
+      hooks: {
+        onMutationStart: () => {
+          throw new Error('broken hook')
+        },
+        onMutationError: (e) => events.push(e),
+      },
+    }) as any
+
+    await expect(mutators.post.explode({}, {})).rejects.toThrow('boom')
+
+    expect(events[0].errorKind).toBe('error')
+  })
+
+  test('reports failing hooks to the injected logger with structured fields', async () => {
+    const logs: Array<{ level: string; fields: LogFields; message: string }> = []
+    const log = (level: string) => (fields: LogFields, message: string) =>
+      logs.push({ level, fields, message })
+    setLogger({
+      debug: log('debug'),
+      info: log('info'),
+      warn: log('warn'),
+      error: log('error'),
+    })
+
+    try {
+      const mutators = createMutators({
+        environment: 'server',
+        authData,
+        can: async () => {},
+        models,
+        hooks: {
+          onMutationSuccess: () => {
+            throw new Error('broken hook')
+          },
+        },
+      }) as any
+
+      await mutators.post.publish({}, {})
+    } finally {
+      setLogger(consoleLogger)
+    }
+
+    const hookLog = logs.find((l) => l.message.includes('hook failed'))
+    expect(hookLog).toMatchObject({
+      level: 'error',
+      fields: { model: 'post', mutator: 'publish' },
+    })
+    expect(hookLog!.fields.err).toBeInstanceOf(Error)
+  })
+})
+
+describe('createMutators timeouts', () => {
+  test('throws MutatorTimeoutError and aborts ctx.signal', async () => {
+    let signal: AbortSignal | undefined
+    const events: any[] = []
+
+    const mutators = createMutators({
+      environment: 'server',
+      authData,
+      can: async () => {},
+      timeoutMs: 20,
+      models: {
+        post: {
+          mutate: {
+            async slow(ctx: MutatorContext) {
+              signal = ctx.signal
+              await new Promise((res) => setTimeout(res, 200))
+            },
+          },
+        },
+      },
+      hooks: {
+        onMutationError: (e) => events.push(e),
+      },
+    }) as any
+
+    const error = await mutators.post.slow({}, {}).catch((err: unknown) => err)
+
+    expect(error).toBeInstanceOf(MutatorTimeoutError)
+    expect(isMutatorTimeoutError(error)).toBe(true)
+    expect(signal?.aborted).toBe(true)
+    expect(events[0].errorKind).toBe('timeout')
+  })
+
+  test('mutations() timeoutMs overrides the default per mutator', async () => {
+    const mutate = mutations(
+      {
+        async slow() {
+          await new Promise((res) => setTimeout(res, 100))
+        },
+        async alsoSlow() {
+          await new Promise((res) => setTimeout(res, 100))
+        },
+      },
+      { timeoutMs: { slow: 10 } }
+    )
+
+    const mutators = createMutators({
+      environment: 'server',
+      authData,
+      can: async () => {},
+      models: { post: { mutate } },
+    }) as any
+
+    await expect(mutators.post.slow({}, {})).rejects.toBeInstanceOf(MutatorTimeoutError)
+    await expect(mutators.post.alsoSlow({}, {})).resolves.toBeUndefined()
+  })
+
+  test('client can recognize timeout error details', () => {
+    const details = new MutatorTimeoutError('post.slow', 10).details
+    expect(isMutatorTimeoutError(details)).toBe(true)
+    expect(isMutatorTimeoutError({ name: 'PermissionError' })).toBe(false)
+  })
+})
+
+describe('createMutators action permissions', () => {
+  test('CRUD and ctx.can use the where for each action', async () => {
+    const schema = table('note')
+      .columns({ id: string(), authorId: string() })
+      .primaryKey('id')
+    const canInsert = (() => true) as any
+    const canUpdate = (() => true) as any
+
+    const mutate = mutations(
+      schema,
+      { insert: canInsert, update: canUpdate },
+      {
+        async archive(ctx: MutatorContext, note: { id: string }) {
+          await ctx.can('delete', note)
+        },
+      }
+    )
+
+    const checked: unknown[] = []
+    const written: string[] = []
+    const mutators = createMutators({
+      environment: 'server',
+      authData,
+      can: async (where, _obj, options) => {
+        // without preInsertPermissions proposed rows are checked after writing
+        if (!options?.proposed) checked.push(where)
+      },
+      // keyed differently than the table, ctx.can still finds it
+      models: { notes: { mutate } },
+    }) as any
+
+    const tx = {
+      mutate: {
+        note: {
+          insert: async () => written.push('insert'),
+          update: async () => written.push('update'),
+          delete: async () => written.push('delete'),
+        },
+      },
+    }
+
+    await mutators.notes.insert(tx, { id: 'n1', authorId: 'user-1' })
+    await mutators.notes.update(tx, { id: 'n1' })
+    expect(checked).toEqual([canInsert, canUpdate])
+
+    await expect(mutators.notes.delete(tx, { id: 'n1' })).rejects.toBeInstanceOf(
+      PermissionError
+    )
+    await expect(mutators.notes.archive(tx, { id: 'n1' })).rejects.toThrow(
+      'no delete permission for note'
+    )
+    expect(written).toEqual(['insert', 'update'])
+  })
+})
+
+describe('createMutators writable columns', () => {
+  test('update rejects unlisted columns and ones whose where fails', async () => {
+    const schema = table('comment')
+      .columns({ id: string(), content: string(), authorId: string(), pinned: string() })
+      .primaryKey('id')
+    const isAuthor = (() => true) as any
+    const isAdmin = (() => false) as any
+
+    const mutate = mutations(
+      schema,
+      (() => true) as any,
+      {},
+      { writable: { content: isAuthor, pinned: isAdmin } }
+    )
+
+    const mutators = createMutators({
+      environment: 'server',
+      authData,
+      can: async (where) => {
+        if (where === isAdmin) throw new PermissionError('not admin')
+      },
+      models: { comment: { mutate } },
+    }) as any
+
+    const tx = { mutate: { comment: { update: async () => {} } } }
+
+    await expect(
+      mutators.comment.update(tx, { id: 'c1', content: 'edited' })
+    ).resolves.toBeUndefined()
+    await expect(
+      mutators.comment.update(tx, { id: 'c1', content: 'x', authorId: 'me', pinned: '1' })
+    ).rejects.toThrow(`can't write authorId, pinned on comment`)
+  })
+
+  test('upsert of an existing row goes through the same guards', async () => {
+    const schema = table('comment')
+      .columns({ id: string(), content: string(), authorId: string() })
+      .primaryKey('id')
+    setSchema(createSchema({ tables: [schema] }))
+    const canWrite = (() => true) as any
+
+    const mutate = mutations(schema, canWrite, {}, { writable: { content: canWrite } })
+
+    const mutators = createMutators({
+      environment: 'server',
+      authData,
+      can: async () => {},
+      models: { comment: { mutate } },
+    }) as any
+
+    const written: unknown[] = []
+    const rows = new Map([['c1', { id: 'c1', content: 'hi', authorId: 'user-1' }]])
+    const tx = {
+      run: async (query: any) => rows.get(query.ast.where.right.value),
+      mutate: { comment: { upsert: async (row: unknown) => written.push(row) } },
+    }
+
+    await expect(
+      mutators.comment.upsert(tx, { id: 'c1', content: 'x', authorId: 'me' })
+    ).rejects.toThrow(`can't write authorId on comment`)
+    // new rows are inserts, writable doesn't apply
+    await mutators.comment.upsert(tx, { id: 'c2', content: 'x', authorId: 'me' })
+    expect(written).toEqual([{ id: 'c2', content: 'x', authorId: 'me' }])
+  })
+})
+
+describe('createMutators rate limits', () => {
+  test('parses rates', () => {
+    expect(parseRate('30/min')).toEqual({ limit: 30, windowMs: 60_000 })
+    expect(parseRate('5 / 10s')).toEqual({ limit: 5, windowMs: 10_000 })
+    expect(parseRate('100/hours')).toEqual({ limit: 100, windowMs: 3_600_000 })
+    expect(() => parseRate('lots')).toThrow('invalid rate')
+    expect(() => parseRate('100/ms')).toThrow('invalid rate')
+    expect(() => parseRate('0/min')).toThrow('invalid rate')
+    expect(() => parseRate('5/0s')).toThrow('invalid rate')
+    expect(() => parseRate({ limit: -1, windowMs: 1000 })).toThrow('invalid rate')
+  })
+
+  test('limits per user and mutator with a RateLimitError', async () => {
+    const events: any[] = []
+    const store = createMemoryRateLimitStore()
+    const create = (id: string) =>
+      createMutators({
+        environment: 'server',
+        authData: { id },
+        can: async () => {},
+        models,
+        rateLimits: { 'post.publish': { perUser: '2/min' } },
+        rateLimitStore: store,
+        hooks: { onMutationError: (e) => events.push(e) },
+      }) as any
+
+    const alice = create('alice')
+    await alice.post.publish({}, {})
+    await alice.post.publish({}, {})
+    const error = await alice.post.publish({}, {}).catch((err: unknown) => err)
+
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect(isRateLimitError((error as RateLimitError).details)).toBe(true)
+    expect((error as RateLimitError).retryAfterMs).toBeGreaterThan(0)
+    expect(events[0].errorKind).toBe('rateLimit')
+
+    // other users and other mutators have their own buckets
+    await expect(create('bob').post.publish({}, {})).resolves.toBeUndefined()
+    await expect(alice.post.explode({}, {})).rejects.toThrow('boom')
+  })
+
+  test('custom stores decide', async () => {
+    const keys: string[] = []
+    const mutators = createMutators({
+      environment: 'server',
+      authData: { id: 'u1' },
+      can: async () => {},
+      models,
+      rateLimits: { 'post.publish': { perUser: { limit: 1, windowMs: 1000 } } },
+      rateLimitStore: {
+        consume(key) {
+          keys.push(key)
+          return { allowed: false, retryAfterMs: 500 }
+        },
+      },
+    }) as any
+
+    await expect(mutators.post.publish({}, {})).rejects.toBeInstanceOf(RateLimitError)
+    expect(keys).toEqual(['post.publish:u1'])
+  })
+})
@@ -1,9 +1,19 @@
 import { mapObject, time } from '@take-out/helpers'
 
 import { PermissionError } from '../createPermissions'
+import { getLogger, hasCustomLogger } from '../logger'
+import {
+  getActionPermission,
+  getMutationsTable,
+  getMutatorTimeout,
+} from '../modelRegistry'
 import { getAuthData } from '../state'
+import { withSpan } from '../tracing'
 import { runWithContext } from './mutatorContext'
+import { parseRate, RateLimitError } from './rateLimit'
+import { getTransactionEffects } from './transactionEffects'
 
+import type { Outbox } from '../createOutbox'
 import type {
   AuthData,
   Can,
@@ -12,6 +22,7 @@ import type {
   MutatorContext,
   Transaction,
 } from '../types'
+import type { RateLimits, RateLimitStore } from './rateLimit'
 
 export type ValidateMutationFn = (args: {
   authData: AuthData | null
@@ -22,6 +33,87 @@ export type ValidateMutationFn = (args: {
 
 export type { ValidateMutationFn as CreateMutatorsValidateFn }
 
+export type MutationErrorKind =
+  | 'permission'
+  | 'validation'
+  | 'timeout'
+  | 'rateLimit'
+  | 'error'
+
+export type MutationEvent = {
+  modelName: string
+  mutatorName: string
+  authData: AuthData | null
+  args: unknown
+}
+
+// for auditing, metrics and alerting, fire for push and zeroServer.mutate alike
+export type MutationHooks = {
+  /** called before validation runs */
+  onMutationStart?: (event: MutationEvent) => void
+  /** called once the mutator resolved, before the transaction commits */
+  onMutationSuccess?: (event: MutationEvent & { durationMs: number }) => void
+  /** errorKind tells permission denials, validation failures and timeouts apart */
+  onMutationError?: (
+    event: MutationEvent & {
+      durationMs: number
+      error: unknown
+      errorKind: MutationErrorKind
+    }
+  ) => void
+}
+
+export class MutatorTimeoutError extends Error {
+  constructor(
+    readonly mutator: string,
+    readonly timeoutMs: number
+  ) {
+    super(`[mutator] ${mutator} timeout after ${timeoutMs}ms`)
+    this.name = 'MutatorTimeoutError'
+  }
+
+  // zero forwards `details` to the client with the failed mutation result
+  get details() {
+    return { name: this.name, mutator: this.mutator, timeoutMs: this.timeoutMs }
+  }
+}
+
+/**
+ * Works with the thrown error on the server and with the `details` of a failed
+ * mutation result on the client.
+ */
+export function isMutatorTimeoutError(
+  errorOrDetails: unknown
+): errorOrDetails is { name: 'MutatorTimeoutError' } {
+  return (
+    errorOrDetails instanceof MutatorTimeoutError ||
+    (!!errorOrDetails &&
+      typeof errorOrDetails === 'object' &&
+      (errorOrDetails as { name?: unknown }).name === 'MutatorTimeoutError')
+  )
+}
+
+// errors thrown by our own decorators, so hooks can tell them apart
+const ErrorKinds = new WeakMap<object, MutationErrorKind>()
+
+export function getMutationErrorKind(error: unknown): MutationErrorKind {
+  if (error instanceof PermissionError) {
+    return 'permission'
+  }
+  if (error instanceof MutatorTimeoutError) {
+    return 'timeout'
+  }
+  if (error instanceof RateLimitError) {
+    return 'rateLimit'
+  }
+  if (error && typeof error === 'object') {
+    const kind = ErrorKinds.get(error)
+    if (kind) return kind
+    if ((error as Error).name === 'ValiError') return 'validation'
+  }
+  return 'error'
+}
+
 export function createMutators<Models extends GenericModels>({
   environment,
   authData,
@@ -31,6 +123,13 @@ export function createMutators<Models extends GenericModels>({
   models,
   validateMutation,
   mutationValidators,
+  outbox,
+  hooks,
+  rateLimits,
+  rateLimitStore,
+  // don't want this too high - zero runs mutations in order and waits for the last to finish it seems
+  // so if one mutation gets stuck it will just sit there
+  timeoutMs: defaultTimeoutMs = time.ms.minutes(1),
 }: {
   environment: 'server' | 'client'
   authData: AuthData | null
@@ -41,81 +140,161 @@ export function createMutators<Models extends GenericModels>({
   validateMutation?: ValidateMutationFn
   /** valibot schemas keyed by model.mutationName, auto-validates args before running */
   mutationValidators?: Record<string, Record<string, any>>
+  outbox?: Outbox
+  hooks?: MutationHooks
+  /** default mutator timeout, mutations() can override it per mutator */
+  timeoutMs?: number
+  /** server only, per-user limits keyed by model.mutator */
+  rateLimits?: RateLimits
+  rateLimitStore?: RateLimitStore
 }): GetZeroMutators<Models> {
   const serverActions = createServerActions?.()
 
+  const mutationAuthData = () => (environment === 'client' ? getAuthData() : authData)
+
   const modelMutators = mapObject(models, (val) => val.mutate || {}) as Record<
     string,
     Record<string, any>
   >
 
-  function withContext<Args extends any[]>(fn: (...args: Args) => Promise<void>) {
-    return async (tx: Transaction, ...args: Args): Promise<void> => {
+  // lets ctx.can('delete', obj) use the model's permission for that action
+  function createTableCan(tableName: string): Can {
+    return async (whereOrAction, obj, options) => {
+      if (typeof whereOrAction !== 'string') {
+        return can(whereOrAction, obj, options)
+      }
+      const where = getActionPermission(tableName, whereOrAction)
+      if (where) {
+        return can(where, obj, options)
+      }
+      if (environment === 'server') {
+        throw new PermissionError(
+          `[permission] 🚫 Not Allowed: no ${whereOrAction} permission for ${tableName}`
+        )
+      }
+    }
+  }
+
+  function withContext<Args extends any[]>(
+    tableName: string,
+    fn: (...args: Args) => Promise<unknown>,
+    signal: AbortSignal
+  ) {
+    const tableCan = createTableCan(tableName)
+
+    return async (tx: Transaction, ...args: Args): Promise<unknown> => {
+      // on client, read authData dynamically to avoid stale closure during auth transitions
+      // (ZeroProvider recreates Zero instance in useEffect, but mutations can run before that)
+      const currentAuthData = environment === 'client' ? getAuthData() : authData
+
+      // on the server effects are tracked per transaction so they follow its outcome
+      const effects = environment === 'server' ? getTransactionEffects(tx) : undefined
+
       const mutationContext: MutatorContext = {
         tx,
-        // on client, read authData dynamically to avoid stale closure during auth transitions
-        // (ZeroProvider recreates Zero instance in useEffect, but mutations can run before that)
-        authData: environment === 'client' ? getAuthData() : authData,
+        authData: currentAuthData,
         environment,
-        can,
+        can: tableCan,
+        signal,
         server:
           environment === 'server'
             ? ({
                 actions: serverActions || {},
-                asyncTasks: asyncTasks || {},
+                asyncTasks: effects?.asyncTasks || asyncTasks,
+                afterCommit: (fn) => {
+                  ;(effects?.afterCommit || asyncTasks).push(fn)
+                },
+                onRollback: (fn) => {
+                  effects?.onRollback.push(fn)
+                },
+                outbox: {
+                  enqueue: (name, payload, options) => {
+                    if (!outbox) {
+                      throw new Error(
+                        `[outbox] not configured, pass outbox to createZeroServer`
+                      )
+                    }
+                    return outbox.enqueue(tx, name, payload, {
+                      ...options,
+                      authData: currentAuthData,
+                    })
+                  },
+                },
               } as MutatorContext['server'])
             : undefined,
       }
 
-      return await runWithContext(mutationContext, () => {
+      const result = await runWithContext(mutationContext, () => {
         // @ts-expect-error type shenanigan
         // map to our mutations() helper
         return fn(mutationContext, ...args)
       })
+
+      // kept so the push response can carry it back as the mutation's data
+      if (effects) effects.result = result
+
+      return result
     }
   }
 
   function withDevelopmentLogging<Args extends any[]>(
     name: string,
-    fn: (...args: Args) => Promise<void>
+    fn: (...args: Args) => Promise<unknown>
   ) {
     if (process.env.NODE_ENV !== 'development' && !process.env.IS_TESTING) {
       return fn
     }
 
     const debug = process.env.DEBUG
+    const [model, mutator] = name.split('.')
 
-    return async (...args: Args): Promise<void> => {
+    return async (...args: Args): Promise<unknown> => {
       const startTime = performance.now()
+      const logger = getLogger()
+      // keep devtools-friendly groups on the client unless a logger was passed in
+      const useConsoleGroups = environment === 'client' && !hasCustomLogger()
+      const fields = () => ({
+        model,
+        mutator,
+        authId: mutationAuthData()?.id,
+        durationMs: Number((performance.now() - startTime).toFixed(2)),
+      })
 
       try {
         if (debug && environment === 'server') {
-          console.info(`[mutator] ${name} start`)
+          logger.debug(fields(), `[mutator] ${name} start`)
         }
         const result = await fn(...args)
-        const duration = (performance.now() - startTime).toFixed(2)
         if (debug) {
-          if (environment === 'client') {
-            console.groupCollapsed(`[mutator] ${name} completed in ${duration}ms`)
+          const logFields = fields()
+          const { durationMs } = logFields
+          if (useConsoleGroups) {
+            console.groupCollapsed(`[mutator] ${name} completed in ${durationMs}ms`)
             console.info('→', args[1])
             console.info('←', result)
             console.trace()
             console.groupEnd()
           } else {
-            console.info(`[mutator] ${name} completed in ${duration}ms`)
+            logger.debug(logFields, `[mutator] ${name} completed in ${durationMs}ms`)
           }
         }
         return result
       } catch (error) {
         if (debug) {
-          const duration = (performance.now() - startTime).toFixed(2)
+          const logFields = fields()
+          const { durationMs } = logFields
           if (error instanceof PermissionError) {
-            console.info(`[mutator] ${name} denied (${duration}ms)`)
-          } else {
-            console.groupCollapsed(`[mutator] ${name} failed after ${duration}ms`)
+            logger.info(logFields, `[mutator] ${name} denied (${durationMs}ms)`)
+          } else if (useConsoleGroups) {
+            console.groupCollapsed(`[mutator] ${name} failed after ${durationMs}ms`)
             console.error('error:', error)
             console.info('arguments:', JSON.stringify(args[1], null, 2))
             console.groupEnd()
+          } else {
+            logger.error(
+              { ...logFields, err: error, args: args[1] },
+              `[mutator] ${name} failed after ${durationMs}ms`
+            )
           }
         }
         throw error
@@ -123,28 +302,38 @@ export function createMutators<Models extends GenericModels>({
     }
   }
 
+  // creates the inner chain per call so it can receive the AbortSignal
   function withTimeoutGuard<Args extends any[]>(
     name: string,
-    fn: (...args: Args) => Promise<void>,
-    // don't want this too high - zero runs mutations in order and waits for the last to finish it seems
-    // so if one mutation gets stuck it will just sit there
-    timeoutMs: number = time.ms.minutes(1)
+    getTimeoutMs: () => number,
+    createFn: (signal: AbortSignal) => (...args: Args) => Promise<unknown>
   ) {
-    return async (...args: Args): Promise<void> => {
+    return async (...args: Args): Promise<unknown> => {
+      const timeoutMs = getTimeoutMs()
+      const controller = new AbortController()
+      let timer: ReturnType<typeof setTimeout> | undefined
+
       const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new Error(`[mutator] ${name} timeout after ${timeoutMs}ms`))
+        timer = setTimeout(() => {
+          const error = new MutatorTimeoutError(name, timeoutMs)
+          // lets long-running server work stop cooperatively via ctx.signal
+          controller.abort(error)
+          reject(error)
         }, timeoutMs)
       })
 
-      return Promise.race([fn(...args), timeoutPromise])
+      try {
+        return await Promise.race([createFn(controller.signal)(...args), timeoutPromise])
+      } finally {
+        clearTimeout(timer)
+      }
     }
   }
 
   function withValidation<Args extends any[]>(
     tableName: string,
     mutatorName: string,
-    fn: (...args: Args) => Promise<void>
+    fn: (...args: Args) => Promise<unknown>
   ) {
     const validator = mutationValidators?.[tableName]?.[mutatorName]
 
@@ -152,46 +341,189 @@ export function createMutators<Models extends GenericModels>({
       return fn
     }
 
-    return async (...args: Args): Promise<void> => {
-      // args[0] is tx, args[1] is the mutation args
-      // auto-validate with generated valibot schema first
-      // skip validation for null/undefined args (void mutations send null from zero)
-      if (validator && args[1] != null) {
-        const valibot = await import('valibot')
-        valibot.parse(validator, args[1])
+    const validate = async (args: Args) => {
+      try {
+        // args[0] is tx, args[1] is the mutation args
+        // auto-validate with generated valibot schema first
+        // skip validation for null/undefined args (void mutations send null from zero)
+        if (validator && args[1] != null) {
+          const valibot = await import('valibot')
+          valibot.parse(validator, args[1])
+        }
+        // then run user-provided validation hook as escape hatch
+        if (validateMutation) {
+          await validateMutation({
+            authData: environment === 'client' ? getAuthData() : authData,
+            tableName,
+            mutatorName,
+            args: args[1],
+          })
+        }
+      } catch (error) {
+        if (error && typeof error === 'object' && !(error instanceof PermissionError)) {
+          ErrorKinds.set(error, 'validation')
+        }
+        throw error
       }
-      // then run user-provided validation hook as escape hatch
-      if (validateMutation) {
-        await validateMutation({
-          authData: environment === 'client' ? getAuthData() : authData,
-          tableName,
-          mutatorName,
-          args: args[1],
-        })
+    }
+
+    return async (...args: Args): Promise<unknown> => {
+      await withSpan(
+        'on-zero.validation',
+        { model: tableName, mutator: mutatorName },
+        () => validate(args)
+      )
+      return fn(...args)
+    }
+  }
+
+  function withTracing<Args extends any[]>(
+    modelName: string,
+    mutatorName: string,
+    fn: (...args: Args) => Promise<unknown>
+  ) {
+    return (...args: Args): Promise<unknown> =>
+      withSpan(
+        'on-zero.mutator',
+        {
+          model: modelName,
+          mutator: mutatorName,
+          authId: mutationAuthData()?.id,
+          environment,
+        },
+        async (span) => {
+          try {
+            return await fn(...args)
+          } catch (error) {
+            span.setAttribute('errorKind', getMutationErrorKind(error))
+            throw error
+          }
+        }
+      )
+  }
+
+  function withRateLimit<Args extends any[]>(
+    name: string,
+    fn: (...args: Args) => Promise<unknown>
+  ) {
+    const rule = rateLimits?.[name]
+    if (environment !== 'server' || !rule || !rateLimitStore) {
+      return fn
+    }
+
+    const rate = parseRate(rule.perUser)
+    const store = rateLimitStore
+
+    return async (...args: Args): Promise<unknown> => {
+      // anonymous users share one bucket per mutator
+      const userId = authData?.id ?? 'anonymous'
+      const { allowed, retryAfterMs } = await store.consume(`${name}:${userId}`, rate)
+      if (!allowed) {
+        throw new RateLimitError(name, rate.limit, rate.windowMs, retryAfterMs)
       }
       return fn(...args)
     }
   }
 
+  function withLifecycleHooks<Args extends any[]>(
+    modelName: string,
+    mutatorName: string,
+    fn: (...args: Args) => Promise<unknown>
+  ) {
+    if (!hooks?.onMutationStart && !hooks?.onMutationSuccess && !hooks?.onMutationError) {
+      return fn
+    }
+
+    // hooks are for observing only, never let them break the mutation
+    const callHook = <E>(
+      name: keyof MutationHooks,
+      hook: ((e: E) => void) | undefined,
+      event: E
+    ) => {
+      if (!hook) return
+      try {
+        hook(event)
+      } catch (err) {
+        getLogger().error(
+          { model: modelName, mutator: mutatorName, err },
+          `[mutator] ${name} hook failed`
+        )
+      }
+    }
+
+    return async (...args: Args): Promise<unknown> => {
+      const event: MutationEvent = {
+        modelName,
+        mutatorName,
+        authData: environment === 'client' ? getAuthData() : authData,
+        args: args[1],
+      }
+      const startTime = performance.now()
+
+      callHook('onMutationStart', hooks.onMutationStart, event)
+
+      try {
+        const result = await fn(...args)
+        if (environment === 'server') {
+          getTransactionEffects(args[0])?.resolvedMutators.push({
+            modelName,
+            mutatorName,
+          })
+        }
+        callHook('onMutationSuccess', hooks.onMutationSuccess, {
+          ...event,
+          durationMs: performance.now() - startTime,
+        })
+        return result
+      } catch (error) {
+        callHook('onMutationError', hooks.onMutationError, {
+          ...event,
+          durationMs: performance.now() - startTime,
+          error,
+          errorKind: getMutationErrorKind(error),
+        })
+        throw error
+      }
+    }
+  }
+
   function decorateMutators<T extends Record<string, Record<string, any>>>(modules: T) {
     const result: any = {}
 
     for (const [moduleName, moduleExports] of Object.entries(modules)) {
       result[moduleName] = {}
+      const tableName = getMutationsTable(moduleExports) ?? moduleName
       for (const [name] of Object.entries(moduleExports)) {
         const fullName = `${moduleName}.${name}`
         // look up function dynamically to support HMR
         // modules[moduleName] is a proxy that returns updated implementations
         const getDynamicFn = () => modules[moduleName][name]
 
-        result[moduleName][name] = withDevelopmentLogging(
-          fullName,
-          withTimeoutGuard(
-            fullName,
-            withValidation(
-              moduleName,
-              name,
-              withContext((...args: any[]) => getDynamicFn()(...args))
+        result[moduleName][name] = withLifecycleHooks(
+          moduleName,
+          name,
+          withTracing(
+            moduleName,
+            name,
+            withRateLimit(
+              fullName,
+              withDevelopmentLogging(
+                fullName,
+                withTimeoutGuard(
+                  fullName,
+                  () => getMutatorTimeout(getDynamicFn()) ?? defaultTimeoutMs,
+                  (signal) =>
+                    withValidation(
+                      moduleName,
+                      name,
+                      withContext(
+                        tableName,
+                        (...args: any[]) => getDynamicFn()(...args),
+                        signal
+                      )
+                    )
+                )
+              )
             )
           )
         )
@@ -0,0 +1,101 @@
+import { describe, expect, test } from 'vitest'
+
+import { evaluateCondition } from './evaluateCondition'
+
+import type { Condition } from '@rocicorp/zero'
+
+const cmp = (name: string, op: any, value: unknown): Condition => ({
+  type: 'simple',
+  op,
+  left: { type: 'column', name },
+  right: { type: 'literal', value: value as any },
+})
+
+const exists: Condition = {
+  type: 'correlatedSubquery',
+  op: 'EXISTS',
+  related: {
+    correlation: { parentField: ['channelId'], childField: ['id'] },
+    subquery: { table: 'channel' },
+  },
+}
+
+const row = {
+  id: 'm1',
+  authorId: 'u1',
+  channelId: 'c1',
+  content: 'Hello',
+  editedAt: null,
+}
+
+describe('evaluateCondition', () => {
+  test('compares the row in memory with sql null handling', async () => {
+    const noSubqueries = async () => undefined
+
+    expect(await evaluateCondition(cmp('authorId', '=', 'u1'), row, noSubqueries)).toBe(
+      true
+    )
+    expect(await evaluateCondition(cmp('editedAt', '!=', 1), row, noSubqueries)).toBe(
+      false
+    )
+    expect(await evaluateCondition(cmp('editedAt', 'IS', null), row, noSubqueries)).toBe(
+      true
+    )
+    expect(
+      await evaluateCondition(cmp('content', 'ILIKE', 'hel%'), row, noSubqueries)
+    ).toBe(true)
+    expect(
+      await evaluateCondition(cmp('channelId', 'NOT IN', ['c2', null]), row, noSubqueries)
+    ).toBe(false)
+    // left out of the insert, the database default decides
+    expect(
+      await evaluateCondition(cmp('createdAt', '>', 0), row, noSubqueries)
+    ).toBeUndefined()
+  })
+
+  test('leaves text ordering and json values to the database', async () => {
+    const noSubqueries = async () => undefined
+    const withMeta = { ...row, score: 3, meta: { pinned: true } }
+
+    // collation decides text order, 'a' < 'B' holds under en_US but not in js
+    expect(
+      await evaluateCondition(cmp('content', '<', 'a'), withMeta, noSubqueries)
+    ).toBeUndefined()
+    expect(await evaluateCondition(cmp('score', '>=', 3), withMeta, noSubqueries)).toBe(
+      true
+    )
+    expect(
+      await evaluateCondition(cmp('meta', '=', { pinned: true }), withMeta, noSubqueries)
+    ).toBeUndefined()
+    expect(
+      await evaluateCondition(cmp('meta', 'IS NOT', null), withMeta, noSubqueries)
+    ).toBeUndefined()
+  })
+
+  test('only runs subqueries when memory can not decide', async () => {
+    const ran: unknown[] = []
+    const evaluateSubquery = async (condition: any) => {
+      ran.push(condition)
+      return condition.op === 'EXISTS'
+    }
+
+    const decided = await evaluateCondition(
+      { type: 'or', conditions: [exists, cmp('authorId', '=', 'u1')] },
+      row,
+      evaluateSubquery
+    )
+    expect(decided).toBe(true)
+    expect(ran).toEqual([])
+
+    const queried = await evaluateCondition(
+      {
+        type: 'and',
+        conditions: [{ ...exists, op: 'NOT EXISTS' }, cmp('authorId', '=', 'u1')],
+      },
+      row,
+      evaluateSubquery
+    )
+    expect(queried).toBe(false)
+    expect(ran).toHaveLength(1)
+  })
+})
@@ -0,0 +1,164 @@
+import type {
+  Condition,
+  CorrelatedSubqueryCondition,
+  SimpleCondition,
+} from '@rocicorp/zero'
+
+// resolves an exists() branch, undefined when it can't be answered
+export type EvaluateSubquery = (
+  condition: CorrelatedSubqueryCondition
+) => Promise<boolean | undefined>
+
+type Row = Record<string, unknown>
+
+/**
+ * Evaluates a zero condition against a row that isn't in the database yet,
+ * with the same null handling postgres applies. Resolves undefined when part
+ * of the tree can't be answered in memory, the caller should query instead.
+ */
+export async function evaluateCondition(
+  condition: Condition,
+  row: Row,
+  evaluateSubquery: EvaluateSubquery
+): Promise<boolean | undefined> {
+  switch (condition.type) {
+    case 'simple':
+      return evaluateSimple(condition, row)
+
+    case 'correlatedSubquery':
+      return evaluateSubquery(condition)
+
+    case 'and':
+    case 'or': {
+      // a deciding branch in memory saves the subqueries
+      const conditions = [...condition.conditions].sort(
+        (a, b) => subqueryCount(a) - subqueryCount(b)
+      )
+      const decides = condition.type === 'or'
+      let unknown = false
+      for (const child of conditions) {
+        const result = await evaluateCondition(child, row, evaluateSubquery)
+        if (result === undefined) unknown = true
+        else if (result === decides) return decides
+      }
+      return unknown ? undefined : !decides
+    }
+  }
+}
+
+function subqueryCount(condition: Condition): number {
+  switch (condition.type) {
+    case 'simple':
+      return 0
+    case 'correlatedSubquery':
+      return 1
+    default:
+      return condition.conditions.reduce((sum, c) => sum + subqueryCount(c), 0)
+  }
+}
+
+function resolveValue(
+  position: SimpleCondition['left'] | SimpleCondition['right'],
+  row: Row
+): { value: unknown } | undefined {
+  switch (position.type) {
+    case 'literal':
+      return { value: position.value }
+    case 'column':
+      // columns left out of an insert get the database default
+      return position.name in row && row[position.name] !== undefined
+        ? { value: row[position.name] }
+        : undefined
+    default:
+      // static parameters are only bound by zero-cache
+      return undefined
+  }
+}
+
+function evaluateSimple(condition: SimpleCondition, row: Row): boolean | undefined {
+  const left = resolveValue(condition.left, row)
+  const right = resolveValue(condition.right, row)
+  if (!left || !right) return undefined
+
+  const a = left.value as any
+  const b = right.value as any
+
+  // json values compare by content in postgres, not by reference
+  const isList = condition.op === 'IN' || condition.op === 'NOT IN'
+  if (
+    !isPrimitive(a) ||
+    !(isList ? Array.isArray(b) && b.every(isPrimitive) : isPrimitive(b))
+  ) {
+    return undefined
+  }
+
+  switch (condition.op) {
+    case 'IS':
+      return a === b
+    case 'IS NOT':
+      return a !== b
+  }
+
+  // comparing with null is unknown in sql, which filters the row out
+  if (a === null || b === null) return false
+
+  switch (condition.op) {
+    case '=':
+      return a === b
+    case '!=':
+      return a !== b
+    case '<':
+      return canOrder(a, b) ? a < b : undefined
+    case '>':
+      return canOrder(a, b) ? a > b : undefined
+    case '<=':
+      return canOrder(a, b) ? a <= b : undefined
+    case '>=':
+      return canOrder(a, b) ? a >= b : undefined
+    case 'IN':
+      return (b as unknown[]).includes(a)
+    case 'NOT IN':
+      // a null in the list makes NOT IN unknown
+      return !(b as unknown[]).includes(a) && !(b as unknown[]).includes(null)
+    case 'LIKE':
+      return likeToRegExp(b, '').test(a)
+    case 'NOT LIKE':
+      return !likeToRegExp(b, '').test(a)
+    case 'ILIKE':
+      return likeToRegExp(b, 'i').test(a)
+    case 'NOT ILIKE':
+      return !likeToRegExp(b, 'i').test(a)
+  }
+
+  return undefined
+}
+
+function likeToRegExp(pattern: string, flags: string) {
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]!)
+    } else if (char === '%') {
+      source += '[\\s\\S]*'
+    } else if (char === '_') {
+      source += '[\\s\\S]'
+    } else {
+      source += escapeRegExp(char)
+    }
+  }
+  return new RegExp(`^${source}$`, flags)
+}
+
+// postgres orders text by the column's collation, js by code unit
+function canOrder(a: unknown, b: unknown) {
+  return typeof a !== 'string' && typeof b !== 'string'
+}
+
+function isPrimitive(value: unknown) {
+  return value === null || typeof value !== 'object'
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'vitest'
+
+import { createPendingWork } from './pendingWork'
+
+function deferred() {
+  let resolve = () => {}
+  const promise = new Promise<void>((r) => (resolve = r))
+  return { promise, resolve }
+}
+
+describe('createPendingWork', () => {
+  test('drains work added while draining', async () => {
+    const work = createPendingWork()
+    const first = deferred()
+    const second = deferred()
+
+    work.track(
+      first.promise.then(() => {
+        work.track(second.promise)
+      })
+    )
+    expect(work.size).toBe(1)
+
+    const drained = work.drain(1000)
+    first.resolve()
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    // the first one settled but drain keeps waiting on what it added
+    expect(work.size).toBe(1)
+    second.resolve()
+
+    expect(await drained).toBe(true)
+    expect(work.size).toBe(0)
+  })
+
+  test('counts rejected work as settled', async () => {
+    const work = createPendingWork()
+    const failing = work.track(Promise.reject(new Error('boom')))
+
+    await expect(failing).rejects.toThrow('boom')
+    expect(await work.drain(1000)).toBe(true)
+  })
+
+  test('resolves false when the timeout hits first', async () => {
+    const work = createPendingWork()
+    work.track(deferred().promise)
+
+    expect(await work.drain(10)).toBe(false)
+    expect(work.size).toBe(1)
+  })
+})
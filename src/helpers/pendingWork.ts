@@ -0,0 +1,45 @@
+// tracks in-flight promises so shutdown can wait for them to settle
+export function createPendingWork() {
+  const pending = new Set<Promise<unknown>>()
+
+  function track<T>(promise: Promise<T>): Promise<T> {
+    pending.add(promise)
+    const remove = () => {
+      pending.delete(promise)
+    }
+    promise.then(remove, remove)
+    return promise
+  }
+
+  /**
+   * Resolves true once everything tracked (including work added while
+   * draining) settled, or false if the timeout hit first.
+   */
+  async function drain(timeoutMs: number): Promise<boolean> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<false>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs)
+    })
+
+    const settleAll = async () => {
+      while (pending.size) {
+        await Promise.allSettled([...pending])
+      }
+      return true as const
+    }
+
+    try {
+      return await Promise.race([settleAll(), timeout])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  return {
+    track,
+    drain,
+    get size() {
+      return pending.size
+    },
+  }
+}
@@ -0,0 +1,7 @@
+// quotes a possibly schema-qualified name like `jobs.outbox` for raw sql
+export function quoteIdent(name: string) {
+  return name
+    .split('.')
+    .map((part) => `"${part.replace(/"/g, '""')}"`)
+    .join('.')
+}
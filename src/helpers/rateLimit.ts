@@ -0,0 +1,158 @@
+// parsed form of a rate like '30/min'
+export type Rate = {
+  limit: number
+  windowMs: number
+}
+
+export type RateLimitRule = {
+  /** e.g. '30/min', '5/s', '100/hour', '1000/day' or { limit, windowMs } */
+  perUser: string | Rate
+}
+
+/** keyed by model.mutator, e.g. { 'message.send': { perUser: '30/min' } } */
+export type RateLimits = Record<string, RateLimitRule>
+
+export type RateLimitResult = {
+  allowed: boolean
+  /** how long until the next call would be allowed, 0 when allowed */
+  retryAfterMs: number
+}
+
+/**
+ * Storage for rate limit state. The default keeps token buckets in memory,
+ * implement this on redis or similar to share limits across processes.
+ */
+export type RateLimitStore = {
+  consume(key: string, rate: Rate): RateLimitResult | Promise<RateLimitResult>
+}
+
+const units: Record<string, number> = {
+  s: 1000,
+  sec: 1000,
+  second: 1000,
+  m: 60_000,
+  min: 60_000,
+  minute: 60_000,
+  h: 3_600_000,
+  hour: 3_600_000,
+  d: 86_400_000,
+  day: 86_400_000,
+}
+
+function getUnitMs(unit: string) {
+  const name = unit.toLowerCase()
+  // plurals like 'mins' or 'hours', but 'ms' isn't minutes
+  return (
+    units[name] ??
+    (name.length > 2 && name.endsWith('s') ? units[name.slice(0, -1)] : undefined)
+  )
+}
+
+export function parseRate(rate: string | Rate): Rate {
+  const parsed = typeof rate === 'object' ? rate : parseRateString(rate)
+  if (!(parsed.limit > 0) || !(parsed.windowMs > 0)) {
+    throw new Error(
+      `[rateLimit] invalid rate ${JSON.stringify(rate)}, expected e.g. '30/min'`
+    )
+  }
+  return parsed
+}
+
+function parseRateString(rate: string): Rate {
+  const match = rate.trim().match(/^(\d+)\s*\/\s*(\d*)\s*([a-z]+)$/i)
+  const unitMs = match && getUnitMs(match[3]!)
+  if (!match || !unitMs) {
+    throw new Error(`[rateLimit] invalid rate "${rate}", expected e.g. '30/min'`)
+  }
+
+  return {
+    limit: Number(match[1]),
+    windowMs: unitMs * (match[2] ? Number(match[2]) : 1),
+  }
+}
+
+/**
+ * In-memory token buckets: each key holds up to `limit` tokens refilled
+ * evenly over `windowMs`, so bursts are allowed up to the limit.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number; fullAt: number }>()
+  let lastSweep = Date.now()
+
+  // drop buckets that refilled completely, they behave like new ones
+  function sweep(now: number) {
+    if (now - lastSweep < 60_000) return
+    lastSweep = now
+    for (const [key, bucket] of buckets) {
+      if (bucket.fullAt <= now) buckets.delete(key)
+    }
+  }
+
+  return {
+    consume(key, { limit, windowMs }) {
+      const now = Date.now()
+      sweep(now)
+
+      const refillPerMs = limit / windowMs
+      const bucket = buckets.get(key)
+      const tokens = bucket
+        ? Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs)
+        : limit
+
+      if (tokens < 1) {
+        buckets.set(key, {
+          tokens,
+          updatedAt: now,
+          fullAt: now + (limit - tokens) / refillPerMs,
+        })
+        return { allowed: false, retryAfterMs: Math.ceil((1 - tokens) / refillPerMs) }
+      }
+
+      const remaining = tokens - 1
+      buckets.set(key, {
+        tokens: remaining,
+        updatedAt: now,
+        fullAt: now + (limit - remaining) / refillPerMs,
+      })
+      return { allowed: true, retryAfterMs: 0 }
+    },
+  }
+}
+
+export class RateLimitError extends Error {
+  constructor(
+    readonly mutator: string,
+    readonly limit: number,
+    readonly windowMs: number,
+    readonly retryAfterMs: number
+  ) {
+    super(`[mutator] ${mutator} rate limited, retry in ${retryAfterMs}ms`)
+    this.name = 'RateLimitError'
+  }
+
+  // zero forwards `details` to the client with the failed mutation result
+  get details() {
+    return {
+      name: this.name,
+      mutator: this.mutator,
+      limit: this.limit,
+      windowMs: this.windowMs,
+      retryAfterMs: this.retryAfterMs,
+    }
+  }
+}
+
+/**
+ * Works with the thrown error on the server and with the `details` of a failed
+ * mutation result on the client.
+ */
+export function isRateLimitError(
+  errorOrDetails: unknown
+): errorOrDetails is { name: 'RateLimitError'; retryAfterMs: number } {
+  return (
+    errorOrDetails instanceof RateLimitError ||
+    (!!errorOrDetails &&
+      typeof errorOrDetails === 'object' &&
+      (errorOrDetails as { name?: unknown }).name === 'RateLimitError')
+  )
+}
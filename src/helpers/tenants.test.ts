@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, test, vi } from 'vitest'
+
+import { createTenantRegistry, currentTenant } from './tenants'
+
+import type { TenantConnection } from './tenants'
+
+function setup(options: { idleTimeoutMs?: number; maxTenants?: number } = {}) {
+  const ended: string[] = []
+  const registry = createTenantRegistry({
+    ...options,
+    connect: ({ id }): TenantConnection => ({
+      id,
+      zeroDb: {} as any,
+      query: async () => [],
+      stats: () => ({ total: 2, idle: 1, waiting: 0 }),
+      end: async () => {
+        ended.push(id)
+      },
+    }),
+  })
+  return { registry, ended }
+}
+
+describe('createTenantRegistry', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  test('runs with the tenant as current and reuses its connection', async () => {
+    const { registry } = setup()
+
+    const first = await registry.run({ id: 'acme' }, async () => currentTenant())
+    const second = await registry.run({ id: 'acme' }, async () => currentTenant())
+
+    expect(first?.id).toBe('acme')
+    expect(second).toBe(first)
+    expect(currentTenant()).toBeUndefined()
+    expect(registry.stats()).toEqual({ total: 2, idle: 1, waiting: 0 })
+  })
+
+  test('evicts idle tenants but not ones with work in flight', async () => {
+    vi.useFakeTimers()
+    const { registry, ended } = setup({ idleTimeoutMs: 1000 })
+
+    await registry.run({ id: 'idle' }, async () => {})
+
+    let finish = () => {}
+    const busy = registry.run(
+      { id: 'busy' },
+      () => new Promise<void>((resolve) => (finish = resolve))
+    )
+
+    vi.advanceTimersByTime(2000)
+    await registry.run({ id: 'other' }, async () => {})
+
+    expect(ended).toEqual(['idle'])
+    finish()
+    await busy
+  })
+
+  test('evicts the least recently used tenants past maxTenants', async () => {
+    const { registry, ended } = setup({ maxTenants: 2 })
+
+    for (const id of ['a', 'b', 'c']) {
+      await registry.run({ id }, async () => {})
+    }
+
+    expect(ended).toEqual(['a'])
+    expect(registry.size).toBe(2)
+  })
+
+  test('sweeps idle tenants on a timer', async () => {
+    vi.useFakeTimers()
+    const { registry, ended } = setup({ idleTimeoutMs: 1000 })
+
+    await registry.run({ id: 'idle' }, async () => {})
+    vi.advanceTimersByTime(2000)
+
+    expect(ended).toEqual(['idle'])
+    expect(registry.size).toBe(0)
+  })
+
+  test('keeps tenants connected while tracked work still runs', async () => {
+    vi.useFakeTimers()
+    const { registry, ended } = setup({ idleTimeoutMs: 1000 })
+
+    let finish = () => {}
+    const task = new Promise<void>((resolve) => (finish = resolve))
+    // like async tasks a push starts and doesn't wait for
+    await registry.run({ id: 'acme' }, async () => {
+      registry.track(task)
+    })
+
+    vi.advanceTimersByTime(5000)
+    expect(ended).toEqual([])
+
+    finish()
+    await task
+    vi.advanceTimersByTime(2000)
+    expect(ended).toEqual(['acme'])
+  })
+})
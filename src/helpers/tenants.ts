@@ -0,0 +1,188 @@
+import { createAsyncContext } from '@take-out/helpers'
+
+import type {
+  DatabaseAdapter,
+  PoolOptions,
+  PoolStats,
+  ResolvedDatabase,
+} from '../createDatabase'
+import type { AuthData } from '../types'
+import type { Database } from '@rocicorp/zero/server'
+
+export type TenantConfig = {
+  /** stable id, connections are created once per id and reused */
+  id: string
+  /** connection string, defaults to the server's `database` */
+  database?: string
+  /** or a pre-built client, owned by the caller and never closed by on-zero */
+  db?: DatabaseAdapter
+  /** postgres schema(s) holding this tenant's tables, set as search_path */
+  searchPath?: string
+  /** pool tuning for this tenant, merged over `tenants.pool` */
+  pool?: PoolOptions
+}
+
+export type TenantOptions = {
+  /**
+   * Picks the tenant for a request or zeroServer call, return null to use the
+   * server's own database. `request` is only set for push and pull.
+   */
+  resolveTenant: (
+    authData: AuthData | null,
+    request?: Request
+  ) => TenantConfig | null | Promise<TenantConfig | null>
+  /** default pool tuning for tenant connections, e.g. { max: 5 } */
+  pool?: PoolOptions
+  /** end connections of tenants unused for this long, defaults to 10 minutes */
+  idleTimeoutMs?: number
+  /** most tenants kept connected at once, least recently used idle ones are evicted */
+  maxTenants?: number
+}
+
+// what the server keeps per tenant
+export type TenantConnection = {
+  id: string
+  zeroDb: Database<any>
+  query: ResolvedDatabase['query']
+  stats: () => PoolStats | null
+  end: () => Promise<void>
+}
+
+type TenantEntry = {
+  connection: TenantConnection
+  active: number
+  lastUsedAt: number
+}
+
+const tenantContext = createAsyncContext<TenantConnection>()
+
+// the tenant the current request or zeroServer call runs against
+export function currentTenant(): TenantConnection | undefined {
+  return tenantContext.get()
+}
+
+/**
+ * Caches a connection per tenant id and ends the ones that sat idle for
+ * `idleTimeoutMs`, or the least recently used idle ones past `maxTenants`.
+ * Tenants with work in flight, including work passed to track(), are never
+ * evicted.
+ */
+export function createTenantRegistry({
+  connect,
+  idleTimeoutMs = 10 * 60_000,
+  maxTenants = Infinity,
+  onEvictError,
+}: {
+  connect: (config: TenantConfig) => TenantConnection
+  idleTimeoutMs?: number
+  maxTenants?: number
+  onEvictError?: (tenantId: string, error: unknown) => void
+}) {
+  const entries = new Map<string, TenantEntry>()
+  let sweepTimer: ReturnType<typeof setInterval> | undefined
+
+  // sweeps on a timer too, otherwise idle tenants only go once another resolves
+  function startSweeping() {
+    if (sweepTimer || !Number.isFinite(idleTimeoutMs)) return
+    sweepTimer = setInterval(() => sweep(Date.now()), idleTimeoutMs)
+    sweepTimer.unref?.()
+  }
+
+  function stopSweeping() {
+    clearInterval(sweepTimer)
+    sweepTimer = undefined
+  }
+
+  function evict(id: string, entry: TenantEntry) {
+    entries.delete(id)
+    if (!entries.size) stopSweeping()
+    entry.connection.end().catch((error) => onEvictError?.(id, error))
+  }
+
+  function sweep(now: number) {
+    for (const [id, entry] of entries) {
+      if (!entry.active && now - entry.lastUsedAt >= idleTimeoutMs) {
+        evict(id, entry)
+      }
+    }
+
+    if (entries.size <= maxTenants) return
+    const idle = [...entries].filter(([, entry]) => !entry.active)
+    idle.sort(([, a], [, b]) => a.lastUsedAt - b.lastUsedAt)
+    for (const [id, entry] of idle.slice(0, entries.size - maxTenants)) {
+      evict(id, entry)
+    }
+  }
+
+  async function run<T>(config: TenantConfig, fn: () => Promise<T>): Promise<T> {
+    const now = Date.now()
+    let entry = entries.get(config.id)
+    if (!entry) {
+      entry = { connection: connect(config), active: 0, lastUsedAt: now }
+      entries.set(config.id, entry)
+      startSweeping()
+    }
+
+    entry.active++
+    entry.lastUsedAt = now
+    sweep(now)
+
+    try {
+      return await tenantContext.run(entry.connection, fn)
+    } finally {
+      release(entry)
+    }
+  }
+
+  function release(entry: TenantEntry) {
+    entry.active--
+    entry.lastUsedAt = Date.now()
+  }
+
+  /**
+   * Counts work that outlives run() against the current tenant, like async
+   * tasks a push starts, so its connection isn't ended while they use it.
+   */
+  function track<T>(promise: Promise<T>): Promise<T> {
+    const connection = tenantContext.get()
+    const entry = connection && entries.get(connection.id)
+    if (!entry || entry.connection !== connection) return promise
+
+    entry.active++
+    const done = () => release(entry)
+    promise.then(done, done)
+    return promise
+  }
+
+  // summed over all connected tenants that report pool usage
+  function stats(): PoolStats | null {
+    let total: PoolStats | null = null
+    for (const { connection } of entries.values()) {
+      const s = connection.stats()
+      if (!s) continue
+      total ??= { total: 0, idle: 0, waiting: 0 }
+      total.total += s.total
+      total.idle += s.idle
+      total.waiting += s.waiting
+    }
+    return total
+  }
+
+  async function end() {
+    const connections = [...entries.values()].map((entry) => entry.connection)
+    entries.clear()
+    stopSweeping()
+    await Promise.all(connections.map((connection) => connection.end()))
+  }
+
+  return {
+    run,
+    track,
+    stats,
+    end,
+    connections: () => [...entries.values()].map((entry) => entry.connection),
+    get size() {
+      return entries.size
+    },
+  }
+}
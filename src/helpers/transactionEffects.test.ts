@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'vitest'
+
+import { getTransactionEffects, trackTransactionEffects } from './transactionEffects'
+
+import type { TransactionEffects } from './transactionEffects'
+
+// fake zero Database: runs the callback with a fresh tx object each time
+function createFakeDB() {
+  return {
+    async transaction(cb: (tx: any, hooks: any) => any) {
+      return await cb({}, {})
+    },
+  }
+}
+
+describe('trackTransactionEffects', () => {
+  test('hands effects to onCommit when the transaction resolves', async () => {
+    const committed: TransactionEffects[] = []
+    const rolledBack: TransactionEffects[] = []
+
+    const db = trackTransactionEffects(createFakeDB(), {
+      onCommit: (effects) => committed.push(effects),
+      onRollback: (effects) => rolledBack.push(effects),
+    })
+
+    const task = async () => {}
+    const result = await db.transaction(async (tx) => {
+      getTransactionEffects(tx)!.afterCommit.push(task)
+      return 'ok'
+    })
+
+    expect(result).toBe('ok')
+    expect(committed).toHaveLength(1)
+    expect(committed[0]!.afterCommit).toEqual([task])
+    expect(rolledBack).toHaveLength(0)
+  })
+
+  test('hands effects to onRollback when the transaction throws', async () => {
+    const committed: TransactionEffects[] = []
+    const errors: unknown[] = []
+
+    const db = trackTransactionEffects(createFakeDB(), {
+      onCommit: (effects) => committed.push(effects),
+      onRollback: (_, error) => errors.push(error),
+    })
+
+    const error = new Error('denied')
+    await expect(
+      db.transaction(async (tx) => {
+        getTransactionEffects(tx)!.asyncTasks.push(async () => {})
+        throw error
+      })
+    ).rejects.toBe(error)
+
+    expect(committed).toHaveLength(0)
+    expect(errors).toEqual([error])
+  })
+
+  test('keeps effects separate per transaction', async () => {
+    const committed: TransactionEffects[] = []
+
+    const db = trackTransactionEffects(createFakeDB(), {
+      onCommit: (effects) => committed.push(effects),
+      onRollback: () => {},
+    })
+
+    await db.transaction(async (tx) => {
+      getTransactionEffects(tx)!.asyncTasks.push(async () => {})
+    })
+    await db.transaction(async () => {})
+
+    expect(committed.map((e) => e.asyncTasks.length)).toEqual([1, 0])
+  })
+})
@@ -0,0 +1,81 @@
+import { globalValue } from '@take-out/helpers'
+
+import { getLogger } from '../logger'
+
+import type { AsyncAction, RollbackAction } from '../types'
+import type { Database, TransactionProviderInput } from '@rocicorp/zero/server'
+
+// side effects queued by mutators, tied to the transaction they ran in
+export type TransactionEffects = {
+  asyncTasks: AsyncAction[]
+  afterCommit: AsyncAction[]
+  onRollback: RollbackAction[]
+  /** what the mutator resolved with */
+  result?: unknown
+  /** mutators that resolved in this transaction, counted once it settles */
+  resolvedMutators: { modelName: string; mutatorName: string }[]
+}
+
+const EffectsByTransaction = globalValue(
+  `on-zero:transaction-effects`,
+  () => new WeakMap<object, TransactionEffects>()
+)
+
+export function getTransactionEffects(tx: object): TransactionEffects | undefined {
+  return EffectsByTransaction.get(tx)
+}
+
+/**
+ * Wraps a zero Database so every transaction gets its own effects, which are
+ * handed to onCommit or onRollback once the transaction settles.
+ */
+export function trackTransactionEffects<D extends Database<any>>(
+  db: D,
+  {
+    onCommit,
+    onRollback,
+  }: {
+    onCommit: (effects: TransactionEffects, input?: TransactionProviderInput) => void
+    onRollback: (effects: TransactionEffects, error: unknown) => void
+  }
+): D {
+  const tracked: Database<any> = Object.create(db)
+
+  tracked.transaction = async (callback, transactionInput) => {
+    const effects: TransactionEffects = {
+      asyncTasks: [],
+      afterCommit: [],
+      onRollback: [],
+      resolvedMutators: [],
+    }
+
+    let result: any
+    try {
+      result = await db.transaction((tx, hooks) => {
+        EffectsByTransaction.set(tx, effects)
+        return callback(tx, hooks)
+      }, transactionInput)
+    } catch (error) {
+      onRollback(effects, error)
+      throw error
+    }
+
+    onCommit(effects, transactionInput)
+    return result
+  }
+
+  return tracked as D
+}
+
+export function getCommitTasks(effects: TransactionEffects): AsyncAction[] {
+  return [...effects.asyncTasks, ...effects.afterCommit]
+}
+
+export async function runRollbackEffects(effects: TransactionEffects, error: unknown) {
+  if (!effects.onRollback.length) return
+  try {
+    await Promise.all(effects.onRollback.map((fn) => fn(error)))
+  } catch (err) {
+    getLogger().error({ err }, `[mutator] onRollback failed`)
+  }
+}
@@ -4,10 +4,12 @@ export * from './helpers/batchQuery'
 export * from './helpers/createMutators'
 export * from './helpers/ensureLoggedIn'
 export * from './helpers/mutatorContext'
+export * from './helpers/rateLimit'
 export { ensureAuth, getAuth } from './helpers/getAuth'
 export { setAuthData, setEnvironment } from './state'
 
 export * from './createZeroClient'
+export * from './logger'
 export * from './createUseQuery'
 export * from './resolveQuery'
 export * from './run'
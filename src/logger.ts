@@ -0,0 +1,53 @@
+import { globalValue } from '@take-out/helpers'
+
+// structured fields on-zero attaches to its logs, `err` follows pino's convention
+export type LogFields = {
+  model?: string
+  mutator?: string
+  table?: string
+  authId?: unknown
+  durationMs?: number
+  err?: unknown
+  [key: string]: unknown
+}
+
+type LogFn = (fields: LogFields, message: string) => void
+
+/**
+ * pino-compatible logger interface, pass pino() or pino().child({...}) directly
+ */
+export type Logger = {
+  debug: LogFn
+  info: LogFn
+  warn: LogFn
+  error: LogFn
+}
+
+export const consoleLogger: Logger = {
+  debug: (fields, message) => console.debug(message, fields),
+  info: (fields, message) => console.info(message, fields),
+  warn: (fields, message) => console.warn(message, fields),
+  error: (fields, message) => console.error(message, fields),
+}
+
+const state = globalValue<{ logger: Logger; isCustom: boolean }>(
+  'on-zero:logger',
+  () => ({
+    logger: consoleLogger,
+    isCustom: false,
+  })
+)
+
+export function setLogger(logger: Logger) {
+  state.logger = logger
+  state.isCustom = logger !== consoleLogger
+}
+
+export function getLogger(): Logger {
+  return state.logger
+}
+
+// lets dev-only console output (devtools groups, traces) stay when no logger is set
+export function hasCustomLogger() {
+  return state.isCustom
+}
@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'vitest'
+
+import { createMetricsRegistry, createServerMetrics } from './metrics'
+
+describe('metrics', () => {
+  test('renders counters with escaped labels', () => {
+    const registry = createMetricsRegistry()
+    const requests = registry.counter('requests_total', 'Requests by name')
+
+    requests.inc({ name: 'a"b' })
+    requests.inc({ name: 'a"b' }, 2)
+    requests.inc({ name: 'c' })
+
+    expect(requests.get({ name: 'a"b' })).toBe(3)
+    expect(registry.toPrometheus()).toBe(
+      [
+        '# HELP requests_total Requests by name',
+        '# TYPE requests_total counter',
+        'requests_total{name="a\\"b"} 3',
+        'requests_total{name="c"} 1',
+        '',
+      ].join('\n')
+    )
+  })
+
+  test('renders cumulative histogram buckets', () => {
+    const registry = createMetricsRegistry()
+    const duration = registry.histogram('duration_seconds', 'Durations', [0.1, 1])
+
+    duration.observe({ outcome: 'commit' }, 0.05)
+    duration.observe({ outcome: 'commit' }, 0.5)
+    duration.observe({ outcome: 'commit' }, 3)
+
+    const text = registry.toPrometheus()
+    expect(text).toContain('duration_seconds_bucket{outcome="commit",le="0.1"} 1')
+    expect(text).toContain('duration_seconds_bucket{outcome="commit",le="1"} 2')
+    expect(text).toContain('duration_seconds_bucket{outcome="commit",le="+Inf"} 3')
+    expect(text).toContain('duration_seconds_sum{outcome="commit"} 3.55')
+    expect(text).toContain('duration_seconds_count{outcome="commit"} 3')
+  })
+
+  test('server metrics read pool usage at scrape time', () => {
+    let waiting = 0
+    const metrics = createServerMetrics({
+      poolStats: () => ({ total: 4, idle: 1, waiting }),
+    })
+
+    waiting = 2
+    expect(metrics.toPrometheus()).toContain(
+      'on_zero_pool_connections{state="waiting"} 2'
+    )
+  })
+
+  test('rejects duplicate metric names', () => {
+    const registry = createMetricsRegistry()
+    registry.counter('a_total', 'a')
+    expect(() => registry.counter('a_total', 'a')).toThrow('already registered')
+  })
+})
@@ -0,0 +1,190 @@
+import type { PoolStats } from './createDatabase'
+
+export type MetricLabels = Record<string, string>
+
+type Sample = { labels: MetricLabels; value: number }
+
+type MetricDefinition = {
+  name: string
+  help: string
+  type: 'counter' | 'gauge' | 'histogram'
+  samples: () => Array<Sample & { suffix?: string }>
+}
+
+// prometheus client defaults, in seconds
+export const defaultBuckets = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+function labelKey(labels: MetricLabels) {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+function escapeLabelValue(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function formatLabels(labels: MetricLabels) {
+  const entries = Object.entries(labels)
+  if (!entries.length) return ''
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabelValue(v)}"`).join(',')}}`
+}
+
+function formatValue(value: number) {
+  if (value === Infinity) return '+Inf'
+  if (value === -Infinity) return '-Inf'
+  return String(value)
+}
+
+/**
+ * Minimal counter/gauge/histogram registry that renders the Prometheus text
+ * exposition format, enough to scrape on-zero without a metrics dependency.
+ */
+export function createMetricsRegistry() {
+  const definitions = new Map<string, MetricDefinition>()
+
+  function register(definition: MetricDefinition) {
+    if (definitions.has(definition.name)) {
+      throw new Error(`[metrics] ${definition.name} is already registered`)
+    }
+    definitions.set(definition.name, definition)
+  }
+
+  function counter(name: string, help: string) {
+    const values = new Map<string, Sample>()
+
+    register({ name, help, type: 'counter', samples: () => [...values.values()] })
+
+    return {
+      inc(labels: MetricLabels = {}, amount = 1) {
+        const key = labelKey(labels)
+        const sample = values.get(key)
+        if (sample) {
+          sample.value += amount
+        } else {
+          values.set(key, { labels, value: amount })
+        }
+      },
+      get(labels: MetricLabels = {}) {
+        return values.get(labelKey(labels))?.value ?? 0
+      },
+    }
+  }
+
+  // gauges are read at scrape time so they always reflect the current value
+  function gauge(name: string, help: string, collect: () => Sample[]) {
+    register({ name, help, type: 'gauge', samples: collect })
+  }
+
+  function histogram(name: string, help: string, buckets = defaultBuckets) {
+    const sorted = [...buckets].sort((a, b) => a - b)
+    const series = new Map<
+      string,
+      { labels: MetricLabels; counts: number[]; sum: number; count: number }
+    >()
+
+    register({
+      name,
+      help,
+      type: 'histogram',
+      samples: () =>
+        [...series.values()].flatMap(({ labels, counts, sum, count }) => [
+          ...sorted.map((le, i) => ({
+            suffix: '_bucket',
+            labels: { ...labels, le: formatValue(le) },
+            value: counts[i]!,
+          })),
+          { suffix: '_bucket', labels: { ...labels, le: '+Inf' }, value: count },
+          { suffix: '_sum', labels, value: sum },
+          { suffix: '_count', labels, value: count },
+        ]),
+    })
+
+    return {
+      observe(labels: MetricLabels, value: number) {
+        const key = labelKey(labels)
+        let entry = series.get(key)
+        if (!entry) {
+          entry = { labels, counts: sorted.map(() => 0), sum: 0, count: 0 }
+          series.set(key, entry)
+        }
+        // buckets are cumulative
+        for (let i = 0; i < sorted.length; i++) {
+          if (value <= sorted[i]!) entry.counts[i]!++
+        }
+        entry.sum += value
+        entry.count++
+      },
+    }
+  }
+
+  function toPrometheus() {
+    let out = ''
+    for (const { name, help, type, samples } of definitions.values()) {
+      out += `# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}\n`
+      out += `# TYPE ${name} ${type}\n`
+      for (const sample of samples()) {
+        out += `${name}${sample.suffix ?? ''}${formatLabels(sample.labels)} ${formatValue(sample.value)}\n`
+      }
+    }
+    return out
+  }
+
+  return {
+    counter,
+    gauge,
+    histogram,
+    toPrometheus,
+  }
+}
+
+export type MetricsRegistry = ReturnType<typeof createMetricsRegistry>
+
+/**
+ * The metrics createZeroServer records, exposed as zeroServer.metrics.
+ * Add your own to `registry` to serve them from the same endpoint.
+ */
+export function createServerMetrics({
+  poolStats,
+}: {
+  poolStats: () => PoolStats | null
+}) {
+  const registry = createMetricsRegistry()
+
+  const metrics = {
+    registry,
+    mutations: registry.counter(
+      'on_zero_mutations_total',
+      'Mutations run by model, mutator and outcome'
+    ),
+    permissionDenials: registry.counter(
+      'on_zero_permission_denials_total',
+      'Mutation permission checks that denied, by table'
+    ),
+    queryRequests: registry.counter(
+      'on_zero_query_requests_total',
+      'Synced queries resolved by the pull endpoint, by query name'
+    ),
+    asyncTaskFailures: registry.counter(
+      'on_zero_async_task_failures_total',
+      'Async tasks that threw after their mutation committed'
+    ),
+    transactionDuration: registry.histogram(
+      'on_zero_transaction_duration_seconds',
+      'Duration of server transactions, by outcome'
+    ),
+    toPrometheus: registry.toPrometheus,
+  }
+
+  registry.gauge('on_zero_pool_connections', 'Database pool connections by state', () => {
+    const stats = poolStats()
+    if (!stats) return []
+    return [
+      { labels: { state: 'total' }, value: stats.total },
+      { labels: { state: 'idle' }, value: stats.idle },
+      { labels: { state: 'waiting' }, value: stats.waiting },
+    ]
+  })
+
+  return metrics
+}
+
+export type ServerMetrics = ReturnType<typeof createServerMetrics>
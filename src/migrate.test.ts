@@ -0,0 +1,117 @@
+import { mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, test } from 'vitest'
+
+import { diffSnapshots, migrate } from './migrate'
+
+const testDir = join(tmpdir(), 'on-zero-migrate-test-' + Date.now())
+
+beforeEach(() => {
+  mkdirSync(join(testDir, 'models'), { recursive: true })
+})
+
+afterEach(() => {
+  rmSync(testDir, { recursive: true, force: true })
+})
+
+function writeMessageModel(columns: string, primaryKey = `'id'`) {
+  writeFileSync(
+    join(testDir, 'models/message.ts'),
+    `
+import { table, string, number, boolean } from 'on-zero'
+
+export const schema = table('message').columns({
+${columns}
+}).primaryKey(${primaryKey})
+`
+  )
+}
+
+describe('migrate', () => {
+  test('creates tables, then alters them from the snapshot', async () => {
+    writeMessageModel(`  id: string(),\n  content: string(),\n  pinned: boolean(),`)
+
+    const first = await migrate({ dir: testDir, name: 'init', silent: true })
+
+    expect(first.file).toMatch(/\d{14}_init\.sql$/)
+    expect(readFileSync(first.file!, 'utf-8')).toContain(`CREATE TABLE "message" (
+  "id" text NOT NULL,
+  "content" text NOT NULL,
+  "pinned" boolean NOT NULL,
+  PRIMARY KEY ("id")
+);`)
+
+    writeMessageModel(
+      `  id: string(),\n  content: string().optional(),\n  editedAt: number().optional(),\n  views: number(),`
+    )
+
+    const second = await migrate({ dir: testDir, silent: true })
+
+    expect(second.statements).toEqual([
+      `-- "pinned" was removed from models: ALTER TABLE "message" DROP COLUMN "pinned"`,
+      `ALTER TABLE "message" ALTER COLUMN "content" DROP NOT NULL`,
+      `ALTER TABLE "message" ADD COLUMN "editedAt" double precision`,
+      `-- existing rows get 0 for "views", backfill it if that's wrong`,
+      `ALTER TABLE "message" ADD COLUMN "views" double precision NOT NULL DEFAULT 0`,
+      `ALTER TABLE "message" ALTER COLUMN "views" DROP DEFAULT`,
+    ])
+    // removed columns stay commented out in the file
+    expect(readFileSync(second.file!, 'utf-8')).toContain(
+      `\n-- "pinned" was removed from models: ALTER TABLE "message" DROP COLUMN "pinned"\n`
+    )
+
+    const third = await migrate({ dir: testDir, silent: true })
+    expect(third).toEqual({ file: null, statements: [] })
+    expect(
+      readdirSync(join(testDir, 'migrations')).filter((f) => f.endsWith('.sql'))
+    ).toHaveLength(2)
+  })
+
+  test('uses server names from .from()', async () => {
+    writeMessageModel(`  id: string(),\n  body: string().from('body_text'),`)
+
+    const { statements } = await migrate({ dir: testDir, silent: true })
+
+    expect(statements[0]).toContain(`"body_text" text NOT NULL`)
+  })
+})
+
+describe('diffSnapshots', () => {
+  test('changes primary keys and comments on removed tables', () => {
+    const statements = diffSnapshots(
+      {
+        version: 1,
+        tables: {
+          member: {
+            columns: {
+              userId: { type: 'string', optional: false },
+              serverId: { type: 'string', optional: false },
+            },
+            primaryKey: ['userId'],
+          },
+          legacy: { columns: {}, primaryKey: [] },
+        },
+      },
+      {
+        version: 1,
+        tables: {
+          member: {
+            columns: {
+              userId: { type: 'string', optional: false },
+              serverId: { type: 'string', optional: false },
+            },
+            primaryKey: ['userId', 'serverId'],
+          },
+        },
+      }
+    )
+
+    expect(statements).toEqual([
+      `ALTER TABLE "member" DROP CONSTRAINT IF EXISTS "member_pkey"`,
+      `ALTER TABLE "member" ADD PRIMARY KEY ("userId", "serverId")`,
+      `-- "legacy" was removed from models: DROP TABLE "legacy"`,
+    ])
+  })
+})
@@ -0,0 +1,325 @@
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+
+import { extractSchemaColumns, type SchemaColumn } from './generate'
+import { quoteIdent as quote } from './helpers/quoteIdent'
+import { getValueType } from './verifySchema'
+
+import type { DatabaseTableInfo } from './verifySchema'
+
+type ColumnType = 'string' | 'number' | 'boolean' | 'json'
+
+export type MigrationColumn = {
+  type: ColumnType
+  optional: boolean
+}
+
+export type MigrationTable = {
+  /** keyed by postgres column name */
+  columns: Record<string, MigrationColumn>
+  primaryKey: string[]
+}
+
+// what the models looked like when the last migration was written
+export type MigrationSnapshot = {
+  version: 1
+  /** keyed by postgres table name */
+  tables: Record<string, MigrationTable>
+}
+
+export interface MigrateOptions {
+  /** base data directory, models are read from <dir>/models */
+  dir: string
+  /** where migrations and snapshot.json go, defaults to <dir>/migrations */
+  out?: string
+  /** appended to the timestamp in the file name */
+  name?: string
+  /** diff against this live database instead of the last snapshot */
+  database?: string
+  /** suppress output */
+  silent?: boolean
+}
+
+export interface MigrateResult {
+  /** path of the written migration, null when nothing changed */
+  file: string | null
+  statements: string[]
+}
+
+const sqlTypes: Record<ColumnType, string> = {
+  string: 'text',
+  number: 'double precision',
+  boolean: 'boolean',
+  json: 'jsonb',
+}
+
+// fills existing rows when a required column is added
+const sqlDefaults: Record<ColumnType, string> = {
+  string: `''`,
+  number: '0',
+  boolean: 'false',
+  json: `'null'::jsonb`,
+}
+
+const emptySnapshot: MigrationSnapshot = { version: 1, tables: {} }
+
+function columnDefinition(name: string, column: MigrationColumn) {
+  return `${quote(name)} ${sqlTypes[column.type]}${column.optional ? '' : ' NOT NULL'}`
+}
+
+function toMigrationColumn({ type, optional }: SchemaColumn): MigrationColumn {
+  // enumerations are text columns in postgres
+  return { type: type === 'enum' ? 'string' : type, optional }
+}
+
+/**
+ * Reads `export const schema = table(...)` from every model, the same way
+ * generate does, keyed by the postgres table and column names.
+ */
+export async function readModelTables(
+  modelsDir: string
+): Promise<Record<string, MigrationTable>> {
+  const ts = await import('typescript')
+  const tables: Record<string, MigrationTable> = {}
+
+  const files = readdirSync(modelsDir)
+    .filter((f) => f.endsWith('.ts'))
+    .sort()
+
+  for (const file of files) {
+    const filePath = resolve(modelsDir, file)
+    const content = readFileSync(filePath, 'utf-8')
+    if (!content.includes('export const schema = table(')) continue
+
+    const sourceFile = ts.createSourceFile(
+      filePath,
+      content,
+      ts.ScriptTarget.Latest,
+      true
+    )
+
+    let tableName: string | null = null
+    let serverName: string | null = null
+
+    function visit(node: import('typescript').Node) {
+      if (ts.isCallExpression(node)) {
+        const text = node.expression.getText(sourceFile)
+        const [arg] = node.arguments
+        if (arg && ts.isStringLiteral(arg)) {
+          if (text === 'table') tableName = arg.text
+          // table('x').from('y'), not a column's .from()
+          if (
+            text.startsWith('table(') &&
+            text.endsWith('.from') &&
+            !text.includes('.columns')
+          ) {
+            serverName = arg.text
+          }
+        }
+      }
+      ts.forEachChild(node, visit)
+    }
+    visit(sourceFile)
+
+    if (!tableName) continue
+
+    const columns: Record<string, SchemaColumn> = {}
+    const primaryKeys: string[] = []
+    extractSchemaColumns(ts, sourceFile, columns, primaryKeys)
+
+    const name = serverName ?? tableName
+    tables[name] = {
+      columns: Object.fromEntries(
+        Object.entries(columns).map(([column, value]) => [
+          value.serverName ?? column,
+          toMigrationColumn(value),
+        ])
+      ),
+      primaryKey: primaryKeys.map((pk) => columns[pk]?.serverName ?? pk),
+    }
+  }
+
+  return tables
+}
+
+/**
+ * Builds a snapshot of the live tables the models know about. Columns of
+ * types zero doesn't map keep the model's type so they don't show up as
+ * changed.
+ */
+export function snapshotFromDatabase(
+  info: DatabaseTableInfo,
+  models: Record<string, MigrationTable>
+): MigrationSnapshot {
+  const tables: Record<string, MigrationTable> = {}
+
+  for (const [name, model] of Object.entries(models)) {
+    const [schema, table] = name.includes('.')
+      ? name.split('.', 2)
+      : [info.defaultSchema, name]
+    const dbColumns = info.columns.filter((c) => c.schema === schema && c.table === table)
+    if (!dbColumns.length) continue
+
+    const columns: Record<string, MigrationColumn> = {}
+    for (const column of dbColumns) {
+      const type = getValueType(column)
+      columns[column.column] = {
+        type:
+          type && type !== 'null'
+            ? type
+            : (model.columns[column.column]?.type ?? 'string'),
+        optional: column.nullable,
+      }
+    }
+
+    tables[name] = {
+      columns,
+      primaryKey: info.primaryKeys[`${schema}.${table}`] ?? [],
+    }
+  }
+
+  return { version: 1, tables }
+}
+
+/**
+ * Postgres DDL that takes the database from `previous` to `next`. Tables and
+ * columns removed from models only get a comment, dropping data stays a
+ * manual step. Required columns added to an existing table are filled with
+ * a zero value so the statement works on tables that already have rows.
+ */
+export function diffSnapshots(previous: MigrationSnapshot, next: MigrationSnapshot) {
+  const statements: string[] = []
+
+  for (const [name, table] of Object.entries(next.tables)) {
+    const before = previous.tables[name]
+
+    if (!before) {
+      const lines = Object.entries(table.columns).map(
+        ([column, value]) => `  ${columnDefinition(column, value)}`
+      )
+      if (table.primaryKey.length) {
+        lines.push(`  PRIMARY KEY (${table.primaryKey.map(quote).join(', ')})`)
+      }
+      statements.push(`CREATE TABLE ${quote(name)} (\n${lines.join(',\n')}\n)`)
+      continue
+    }
+
+    const alter = `ALTER TABLE ${quote(name)}`
+    const primaryKeyChanged = before.primaryKey.join() !== table.primaryKey.join()
+
+    if (primaryKeyChanged && before.primaryKey.length) {
+      const constraint = `${name.split('.').pop()}_pkey`
+      statements.push(`${alter} DROP CONSTRAINT IF EXISTS ${quote(constraint)}`)
+    }
+
+    for (const column of Object.keys(before.columns)) {
+      if (!table.columns[column]) {
+        statements.push(
+          `-- ${quote(column)} was removed from models: ${alter} DROP COLUMN ${quote(column)}`
+        )
+      }
+    }
+
+    for (const [column, value] of Object.entries(table.columns)) {
+      const existing = before.columns[column]
+      if (!existing) {
+        const definition = columnDefinition(column, value)
+        if (value.optional) {
+          statements.push(`${alter} ADD COLUMN ${definition}`)
+          continue
+        }
+        const fill = sqlDefaults[value.type]
+        statements.push(
+          `-- existing rows get ${fill} for ${quote(column)}, backfill it if that's wrong`,
+          `${alter} ADD COLUMN ${definition} DEFAULT ${fill}`,
+          `${alter} ALTER COLUMN ${quote(column)} DROP DEFAULT`
+        )
+        continue
+      }
+      if (existing.type !== value.type) {
+        const type = sqlTypes[value.type]
+        statements.push(
+          `${alter} ALTER COLUMN ${quote(column)} TYPE ${type} USING ${quote(column)}::${type}`
+        )
+      }
+      if (existing.optional !== value.optional) {
+        statements.push(
+          `${alter} ALTER COLUMN ${quote(column)} ${value.optional ? 'DROP' : 'SET'} NOT NULL`
+        )
+      }
+    }
+
+    if (primaryKeyChanged && table.primaryKey.length) {
+      statements.push(
+        `${alter} ADD PRIMARY KEY (${table.primaryKey.map(quote).join(', ')})`
+      )
+    }
+  }
+
+  for (const name of Object.keys(previous.tables)) {
+    if (!next.tables[name]) {
+      statements.push(
+        `-- ${quote(name)} was removed from models: DROP TABLE ${quote(name)}`
+      )
+    }
+  }
+
+  return statements
+}
+
+function getTimestamp(date = new Date()) {
+  return date.toISOString().replace(/\D/g, '').slice(0, 14)
+}
+
+/**
+ * Diffs the model schemas against the last snapshot (or a live database) and
+ * writes the DDL to <out>/<timestamp>_<name>.sql, then updates snapshot.json.
+ */
+export async function migrate(options: MigrateOptions): Promise<MigrateResult> {
+  const { dir, name = 'migration', database, silent } = options
+  const baseDir = resolve(dir)
+  const outDir = resolve(options.out ?? resolve(baseDir, 'migrations'))
+  const snapshotPath = resolve(outDir, 'snapshot.json')
+
+  const models = await readModelTables(resolve(baseDir, 'models'))
+  const next: MigrationSnapshot = { version: 1, tables: models }
+
+  let previous = emptySnapshot
+  if (database) {
+    // lazy so snapshot-only runs don't need a postgres driver
+    const { createDatabase } = await import('./createDatabase')
+    const { readDatabaseTables } = await import('./verifySchema')
+    const db = createDatabase({ schema: { tables: {} } as any, database })
+    try {
+      previous = snapshotFromDatabase(await readDatabaseTables(db), models)
+    } finally {
+      await db.end()
+    }
+  } else if (existsSync(snapshotPath)) {
+    previous = JSON.parse(readFileSync(snapshotPath, 'utf-8'))
+  }
+
+  const statements = diffSnapshots(previous, next)
+  if (!existsSync(outDir)) {
+    mkdirSync(outDir, { recursive: true })
+  }
+  writeFileSync(snapshotPath, `${JSON.stringify(next, null, 2)}\n`)
+
+  if (!statements.length) {
+    if (!silent) console.info(`✓ no schema changes`)
+    return { file: null, statements }
+  }
+
+  const safeName = name.replace(/[^\w-]+/g, '_')
+  const file = resolve(outDir, `${getTimestamp()}_${safeName}.sql`)
+  const sql = `-- generated by: on-zero migrate\n\n${statements
+    .map((s) => (s.startsWith('--') ? s : `${s};`))
+    .join('\n\n')}\n`
+  writeFileSync(file, sql)
+
+  if (!silent) {
+    console.info(`✓ ${statements.length} statements → ${file}`)
+  }
+
+  return { file, statements }
+}
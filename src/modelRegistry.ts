@@ -1,15 +1,69 @@
-import type { Where } from './types'
+import type { ActionPermissions, PermissionAction, Where } from './types'
 
-const mutationsToPermissionsRegistry = new Map<string, Where>()
+// one where for every action, or one per action
+export type MutationsPermissions = Where | ActionPermissions
 
-export function setMutationsPermissions(tableName: string, permissions: Where) {
+const mutationsToPermissionsRegistry = new Map<string, MutationsPermissions>()
+
+export function setMutationsPermissions(
+  tableName: string,
+  permissions: MutationsPermissions
+) {
   mutationsToPermissionsRegistry.set(tableName, permissions)
 }
 
-export function getMutationsPermissions(tableName: string): Where | undefined {
+export function getMutationsPermissions(
+  tableName: string
+): MutationsPermissions | undefined {
   return mutationsToPermissionsRegistry.get(tableName)
 }
 
-export function getAllMutationsPermissions(): Map<string, Where> {
+export function getAllMutationsPermissions(): Map<string, MutationsPermissions> {
   return mutationsToPermissionsRegistry
 }
+
+const permissionActions: readonly string[] = ['read', 'insert', 'update', 'delete']
+
+// actions can come from client query args, so don't trust the type
+export function isPermissionAction(action: unknown): action is PermissionAction {
+  return typeof action === 'string' && permissionActions.includes(action)
+}
+
+/**
+ * The where that guards `action` on a table, undefined when the table has
+ * no permissions or none for that action (which denies it).
+ */
+export function getActionPermission(
+  tableName: string,
+  action: PermissionAction
+): Where | undefined {
+  if (!isPermissionAction(action)) return
+  const permissions = mutationsToPermissionsRegistry.get(tableName)
+  if (typeof permissions === 'function') return permissions
+  // own keys only, `constructor` and friends aren't actions
+  return permissions && Object.hasOwn(permissions, action)
+    ? permissions[action]
+    : undefined
+}
+
+// which table a mutations(schema, ...) object belongs to, for ctx.can(action)
+const mutationsTableRegistry = new WeakMap<object, string>()
+
+export function setMutationsTable(mutations: object, tableName: string) {
+  mutationsTableRegistry.set(mutations, tableName)
+}
+
+export function getMutationsTable(mutations: object): string | undefined {
+  return mutationsTableRegistry.get(mutations)
+}
+
+// per-mutator timeouts set through mutations(..., { timeoutMs })
+const mutatorTimeoutRegistry = new WeakMap<Function, number>()
+
+export function setMutatorTimeout(mutator: Function, timeoutMs: number) {
+  mutatorTimeoutRegistry.set(mutator, timeoutMs)
+}
+
+export function getMutatorTimeout(mutator: Function): number | undefined {
+  return mutatorTimeoutRegistry.get(mutator)
+}
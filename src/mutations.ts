@@ -1,9 +1,18 @@
 import { isServer } from './constants'
+import { PermissionError } from './createPermissions'
 import { getDidRunPermissionCheck } from './helpers/didRunPermissionCheck'
-import { setMutationsPermissions } from './modelRegistry'
+import {
+  getActionPermission,
+  setMutationsPermissions,
+  setMutationsTable,
+  setMutatorTimeout,
+} from './modelRegistry'
+import { getZQL } from './state'
 
 import type {
+  ActionPermissions,
   MutatorContext,
+  PermissionAction,
   TableInsertRow,
   TableName,
   TableUpdateRow,
@@ -61,14 +70,16 @@ function getOrCreateMutationProxy<T extends Record<string, Function>>(
   })
 
   proxyRegistry.set(tableName, proxy)
+  setMutationsTable(proxy, tableName)
   return proxy
 }
 
 // two ways to use it:
 //  - mutations({}) which doesn't add the "allowed" helper or add CRUD
 //  - mutation('tableName', permissions) adds CRUD with permissions, adds allowed
+//    permissions is one where for everything or { read, insert, update, delete }
 
-type MutationBuilder<Obj = any> = (ctx: MutatorContext, obj?: Obj) => Promise<void>
+type MutationBuilder<Obj = any> = (ctx: MutatorContext, obj?: Obj) => Promise<any>
 type MutationBuilders = Record<string, MutationBuilder>
 
 // start of adding custom can.write(message) style
@@ -103,29 +114,121 @@ type MutationsWithCRUD<Table extends GenericTable, Mutations extends MutationBui
       : never
 }
 
+type TableColumnName<Table extends GenericTable> = keyof Table['schema']['columns'] &
+  string
+
+export type MutationsOptions<
+  Names extends string = string,
+  Columns extends string = string,
+> = {
+  /** per-mutator timeouts, overrides mutationTimeoutMs from createZeroServer */
+  timeoutMs?: Partial<Record<Names, number>>
+  /**
+   * Columns the update CRUD mutation may change, each guarded by a where on
+   * the existing row. Once set, unlisted columns can't be updated, including
+   * by an upsert that hits an existing row.
+   */
+  writable?: Partial<Record<Columns, Where>>
+}
+
 export function mutations<Mutations extends MutationBuilders>(
-  mutations: Mutations
+  mutations: Mutations,
+  options?: MutationsOptions<keyof Mutations & string>
 ): Mutations
-export function mutations<Table extends GenericTable, Permissions extends Where>(
-  table: Table,
-  permissions: Permissions
-): MutationsWithCRUD<Table, {}>
 export function mutations<
   Table extends GenericTable,
-  Permissions extends Where,
+  Permissions extends Where | ActionPermissions,
+>(table: Table, permissions: Permissions): MutationsWithCRUD<Table, {}>
+export function mutations<
+  Table extends GenericTable,
+  Permissions extends Where | ActionPermissions,
   Mutations extends MutationBuilders,
 >(
   table: Table,
   permissions: Permissions,
-  mutations: Mutations
+  mutations: Mutations,
+  options?: MutationsOptions<
+    CRUDNames | (keyof Mutations & string),
+    TableColumnName<Table>
+  >
 ): MutationsWithCRUD<Table, Mutations>
 // TODO we should enforece the CRUD mutations obj to the callier so they get it auto-typed
 export function mutations<
   Table extends GenericTable,
   Mutations extends Record<string, MutationBuilder>,
->(table: Table | Mutations, permissions?: Where, mutations?: Mutations): Mutations {
+>(
+  table: Table | Mutations,
+  permissionsOrOptions?: Where | ActionPermissions | MutationsOptions,
+  mutations?: Mutations,
+  options?: MutationsOptions
+): Mutations {
+  // a table builder has a schema object, a mutators object can't
+  const isTable = typeof (table as Table).schema === 'object'
+  const permissions = isTable
+    ? (permissionsOrOptions as Where | ActionPermissions | undefined)
+    : undefined
+
   if (permissions) {
     const tableName = (table as Table).schema.name as TableName
+    const primaryKey = (table as Table).schema.primaryKey as string[]
+
+    const writable = options?.writable
+
+    // upsert is an update when the row exists, only worth a read when the
+    // permissions differ or writable has to guard the update
+    const getUpsertAction = async (
+      ctx: MutatorContext,
+      obj: any
+    ): Promise<{ action: PermissionAction; isNew?: boolean }> => {
+      if (
+        !writable &&
+        (typeof permissions === 'function' || permissions.insert === permissions.update)
+      ) {
+        return { action: 'insert' }
+      }
+      const query = (getZQL() as any)[tableName]
+        .where((eb: any) => eb.and(...primaryKey.map((key) => eb.cmp(key, obj[key]))))
+        .one()
+      return (await ctx.tx.run(query))
+        ? { action: 'update', isNew: false }
+        : { action: 'insert', isNew: true }
+    }
+
+    // every changed column needs a writable entry whose where passes
+    const runWritableCheck = async (
+      ctx: MutatorContext,
+      obj: Record<string, unknown>,
+      writable: Partial<Record<string, Where>>
+    ) => {
+      const forbidden: string[] = []
+      const columnsByWhere = new Map<Where, string[]>()
+
+      for (const [column, value] of Object.entries(obj)) {
+        if (value === undefined || primaryKey.includes(column)) continue
+        const where = writable[column]
+        if (!where) {
+          forbidden.push(column)
+          continue
+        }
+        columnsByWhere.set(where, [...(columnsByWhere.get(where) ?? []), column])
+      }
+
+      // columns sharing a where are checked with one query
+      for (const [where, columns] of columnsByWhere) {
+        try {
+          await ctx.can(where, obj)
+        } catch (err) {
+          if (!(err instanceof PermissionError)) throw err
+          forbidden.push(...columns)
+        }
+      }
+
+      if (forbidden.length) {
+        throw new PermissionError(
+          `[permission] 🚫 Not Allowed: can't write ${forbidden.join(', ')} on ${tableName}`
+        )
+      }
+    }
 
     const createCRUDMutation = (action: CRUDNames) => {
       return async (ctx: MutatorContext, obj: any) => {
@@ -134,10 +237,15 @@ export function mutations<
          *   - `can` throws an error if it fails
          *     - zero catches error and rolls back transaction
          *     - zero returns error to client when you await zero.mutate.x.z().server
-         *   - for INSERT: check runs after insert completes
+         *   - each action checks its own where, a missing one denies
+         *   - for INSERT: check runs after insert completes, or before it
+         *     against the proposed row with preInsertPermissions
          *   - for the rest: check runs before mutation
          */
-        const runServerPermissionCheck = async () => {
+        const runServerPermissionCheck = async (
+          permissionAction: PermissionAction,
+          proposed?: boolean
+        ) => {
           if (getDidRunPermissionCheck(ctx)) {
             // if the user-defined CRUD mutation runs their own "can", we avoid running ours
             return
@@ -145,27 +253,51 @@ export function mutations<
 
           // only validate on the server
           if (isServer) {
-            await ctx.can(permissions, obj)
+            const where = getActionPermission(tableName, permissionAction)
+            if (!where) {
+              throw new PermissionError(
+                `[permission] 🚫 Not Allowed: no ${permissionAction} permission for ${tableName}`
+              )
+            }
+            await ctx.can(where, obj, { proposed })
           }
         }
 
-        if (action !== 'insert' && action !== 'upsert') {
-          await runServerPermissionCheck()
+        const { action: permissionAction, isNew } =
+          action !== 'upsert'
+            ? { action, isNew: action === 'insert' }
+            : isServer
+              ? await getUpsertAction(ctx, obj)
+              : { action: 'insert' as const }
+
+        // user overrides may change the row before writing it
+        const existing = mutations?.[action]
+
+        if (permissionAction !== 'insert') {
+          await runServerPermissionCheck(permissionAction)
+        } else if (isNew && !existing) {
+          await runServerPermissionCheck(permissionAction, true)
+        }
+
+        if (permissionAction === 'update' && writable && isServer) {
+          await runWritableCheck(ctx, obj, writable)
         }
 
         // if user defines insert run theirs, if not run plain zero:
-        const existing = mutations?.[action]
+        let result: unknown
 
         if (existing) {
-          await existing(ctx, obj)
+          result = await existing(ctx, obj)
         } else {
           type TableName = keyof typeof ctx.tx.mutate // weird type foo because we declare this module and then type check
           await ctx.tx.mutate[tableName as TableName]![action](obj)
         }
 
-        if (action === 'insert' || action === 'upsert') {
-          await runServerPermissionCheck()
+        if (permissionAction === 'insert') {
+          await runServerPermissionCheck(permissionAction)
         }
+
+        return result
       }
     }
 
@@ -183,11 +315,23 @@ export function mutations<
     } as any as Mutations
 
     setMutationsPermissions(tableName, permissions)
+    setTimeouts(finalMutations, options)
 
     // return proxy for HMR support - allows swapping implementations at runtime
     return getOrCreateMutationProxy(tableName, finalMutations)
   }
 
   // no schema/permissions don't add CRUD
+  setTimeouts(table as Mutations, permissionsOrOptions as MutationsOptions | undefined)
   return table as any
 }
+
+function setTimeouts(mutations: Record<string, Function>, options?: MutationsOptions) {
+  if (!options?.timeoutMs) return
+  for (const [name, timeoutMs] of Object.entries(options.timeoutMs)) {
+    const mutator = mutations[name]
+    if (mutator && timeoutMs) {
+      setMutatorTimeout(mutator, timeoutMs)
+    }
+  }
+}
@@ -1 +1,14 @@
 export * from './createZeroServer'
+export * from './createDatabase'
+export * from './createOutbox'
+export * from './createIdempotency'
+export * from './tracing'
+export * from './metrics'
+export * from './adapters'
+export * from './createJWTAuth'
+export type { TenantConfig, TenantOptions } from './helpers/tenants'
+export * from './verifySchema'
+export {
+  formatPermissionExplanation,
+  type PermissionExplanation,
+} from './explainPermission'
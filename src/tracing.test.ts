@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, test } from 'vitest'
+
+import { createMutators } from './helpers/createMutators'
+import { createInMemoryTracer, setTracer, SpanStatusCode, withSpan } from './tracing'
+
+const tracing = createInMemoryTracer()
+
+afterEach(() => {
+  setTracer(null)
+  tracing.reset()
+})
+
+describe('tracing', () => {
+  test('withSpan is a passthrough without a tracer', async () => {
+    expect(await withSpan('noop', {}, () => 1)).toBe(1)
+    expect(tracing.getFinishedSpans()).toHaveLength(0)
+  })
+
+  test('nests mutator and validation spans under the request span', async () => {
+    setTracer(tracing.tracer)
+
+    const mutators = createMutators({
+      environment: 'server',
+      authData: { id: 'user-1' },
+      can: async () => {},
+      validateMutation: () => {},
+      models: {
+        post: {
+          mutate: {
+            async publish() {},
+          },
+        },
+      },
+    }) as any
+
+    await withSpan('on-zero.push', {}, () => mutators.post.publish({}, { id: 'p1' }))
+
+    const spans = tracing.getFinishedSpans()
+    const push = spans.find((s) => s.name === 'on-zero.push')!
+    const mutator = spans.find((s) => s.name === 'on-zero.mutator')!
+    const validation = spans.find((s) => s.name === 'on-zero.validation')!
+
+    expect(mutator.parentId).toBe(push.id)
+    expect(validation.parentId).toBe(mutator.id)
+    expect(mutator.attributes).toMatchObject({
+      model: 'post',
+      mutator: 'publish',
+      authId: 'user-1',
+    })
+    expect(mutator.status.code).toBe(SpanStatusCode.OK)
+  })
+
+  test('records errors on the span', async () => {
+    setTracer(tracing.tracer)
+
+    const mutators = createMutators({
+      environment: 'server',
+      authData: null,
+      can: async () => {},
+      models: {
+        post: {
+          mutate: {
+            async explode() {
+              throw new Error('boom')
+            },
+          },
+        },
+      },
+    }) as any
+
+    await expect(mutators.post.explode({}, {})).rejects.toThrow('boom')
+
+    const [span] = tracing.getFinishedSpans()
+    expect(span).toMatchObject({
+      name: 'on-zero.mutator',
+      status: { code: SpanStatusCode.ERROR, message: 'boom' },
+      attributes: { errorKind: 'error' },
+    })
+    expect(span!.exceptions).toHaveLength(1)
+  })
+})
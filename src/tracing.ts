@@ -0,0 +1,178 @@
+import { createAsyncContext, globalValue } from '@take-out/helpers'
+
+export type SpanAttributeValue = string | number | boolean
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>
+
+// same values as @opentelemetry/api SpanStatusCode
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const
+
+/**
+ * The subset of an OpenTelemetry Span that on-zero uses
+ */
+export type Span = {
+  setAttribute(key: string, value: SpanAttributeValue): unknown
+  recordException(exception: Error | string): void
+  setStatus(status: { code: number; message?: string }): unknown
+  end(): void
+}
+
+/**
+ * OpenTelemetry-compatible tracer, pass trace.getTracer('on-zero') directly.
+ * Spans nest through the tracer's own context propagation.
+ */
+export type Tracer = {
+  startActiveSpan<F extends (span: Span) => unknown>(
+    name: string,
+    options: { attributes?: SpanAttributes },
+    fn: F
+  ): ReturnType<F>
+}
+
+const state = globalValue<{ tracer: Tracer | null }>('on-zero:tracer', () => ({
+  tracer: null,
+}))
+
+export function setTracer(tracer: Tracer | null) {
+  state.tracer = tracer
+}
+
+export function getTracer(): Tracer | null {
+  return state.tracer
+}
+
+const noopSpan: Span = {
+  setAttribute: () => {},
+  recordException: () => {},
+  setStatus: () => {},
+  end: () => {},
+}
+
+/**
+ * Runs fn inside a span, recording errors and ending it once fn settles.
+ * Without a tracer it just calls fn.
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: Record<string, unknown>,
+  fn: (span: Span) => T | Promise<T>
+): Promise<T> {
+  const tracer = state.tracer
+  if (!tracer) {
+    return fn(noopSpan)
+  }
+
+  return tracer.startActiveSpan(
+    name,
+    { attributes: toSpanAttributes(attributes) },
+    async (span) => {
+      try {
+        const result = await fn(span)
+        span.setStatus({ code: SpanStatusCode.OK })
+        return result
+      } catch (err) {
+        span.recordException(err instanceof Error ? err : String(err))
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: err instanceof Error ? err.message : String(err),
+        })
+        throw err
+      } finally {
+        span.end()
+      }
+    }
+  )
+}
+
+// drops empty values and stringifies the rest, auth ids aren't always strings
+function toSpanAttributes(attributes: Record<string, unknown>): SpanAttributes {
+  const out: SpanAttributes = {}
+  for (const key in attributes) {
+    const value = attributes[key]
+    if (value == null) continue
+    out[key] =
+      typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+        ? value
+        : String(value)
+  }
+  return out
+}
+
+export type FinishedSpan = {
+  id: number
+  parentId: number | null
+  name: string
+  attributes: Record<string, SpanAttributeValue>
+  status: { code: number; message?: string }
+  exceptions: Array<Error | string>
+  startTime: number
+  endTime: number
+  durationMs: number
+}
+
+/**
+ * Tracer that keeps finished spans in memory, for tests and local debugging:
+ *
+ *   const tracing = createInMemoryTracer()
+ *   createZeroServer({ ..., tracer: tracing.tracer })
+ *   tracing.getFinishedSpans().filter((s) => s.name === 'on-zero.permission')
+ */
+export function createInMemoryTracer() {
+  const activeSpan = createAsyncContext<number>()
+  let finished: FinishedSpan[] = []
+  let nextId = 1
+
+  const tracer: Tracer = {
+    startActiveSpan(name, options, fn) {
+      const id = nextId++
+      const attributes: Record<string, SpanAttributeValue> = {}
+      for (const key in options.attributes) {
+        const value = options.attributes[key]
+        if (value !== undefined) attributes[key] = value
+      }
+
+      const record: Omit<FinishedSpan, 'endTime' | 'durationMs'> = {
+        id,
+        parentId: activeSpan.get() ?? null,
+        name,
+        attributes,
+        status: { code: SpanStatusCode.UNSET },
+        exceptions: [],
+        startTime: performance.now(),
+      }
+
+      let ended = false
+      const span: Span = {
+        setAttribute(key, value) {
+          attributes[key] = value
+        },
+        recordException(exception) {
+          record.exceptions.push(exception)
+        },
+        setStatus(status) {
+          record.status = status
+        },
+        end() {
+          if (ended) return
+          ended = true
+          const endTime = performance.now()
+          finished.push({ ...record, endTime, durationMs: endTime - record.startTime })
+        },
+      }
+
+      return activeSpan.run(id, () => fn(span)) as ReturnType<typeof fn>
+    },
+  }
+
+  return {
+    tracer,
+    getFinishedSpans: () => finished,
+    reset() {
+      finished = []
+    },
+  }
+}
@@ -68,13 +68,35 @@ export type MutatorContext = {
   tx: Transaction
   authData: AuthData | null
   environment: 'server' | 'client'
+  /** aborted when the mutator times out, pass to fetch() or check in long loops */
+  signal: AbortSignal
   server?: {
     actions: ServerActions
     asyncTasks: Array<() => Promise<void>>
+    outbox: MutatorOutbox
+    /** runs once this mutation's transaction commits */
+    afterCommit: (fn: AsyncAction) => void
+    /** runs if this mutation's transaction is rolled back */
+    onRollback: (fn: RollbackAction) => void
   }
   can: Can
 }
 
+export type OutboxEnqueueOptions = {
+  /** wait at least this long before the first attempt */
+  delayMs?: number
+  maxAttempts?: number
+}
+
+// durable jobs written in the mutation transaction, see createZeroServer({ outbox })
+export type MutatorOutbox = {
+  enqueue: (
+    name: string,
+    payload?: unknown,
+    options?: OutboxEnqueueOptions
+  ) => Promise<void>
+}
+
 // turns our mutators with custom context into zero mutators
 export type GetZeroMutators<Models extends GenericModels> = {
   [Key in keyof Models]: TransformMutators<GetModelMutators<Models>[Key]>
@@ -84,10 +106,21 @@ type GetModelMutators<Models extends GenericModels> = {
   [Key in keyof Models]: Models[Key]['mutate']
 }
 
+// what each mutator resolves with, e.g. MutationResults<typeof models>['post']['archive']
+export type MutationResults<Models extends GenericModels> = {
+  [Key in keyof Models]: {
+    [K in keyof NonNullable<Models[Key]['mutate']>]: NonNullable<
+      Models[Key]['mutate']
+    >[K] extends (...args: any[]) => infer Return
+      ? Awaited<Return>
+      : never
+  }
+}
+
 export type GenericModels = {
   [key: string]: {
     mutate?: Record<string, (ctx: MutatorContext, obj?: any) => Promise<any>>
-    permissions?: Where<any, Condition | boolean>
+    permissions?: Where<any, Condition | boolean> | ActionPermissions<any>
   }
 }
 
@@ -105,13 +138,33 @@ export type Where<
   auth?: AuthData | null
 ) => ReturnType
 
+export type PermissionAction = 'read' | 'insert' | 'update' | 'delete'
+
+// mutations(schema, { read, insert, update, delete }, handlers)
+export type ActionPermissions<Table extends TableName = TableName> = Partial<
+  Record<PermissionAction, Where<Table, Condition | boolean>>
+>
+
+export type CanOptions = {
+  /**
+   * obj is a row about to be inserted, check it in memory before writing when
+   * the server has preInsertPermissions on. Otherwise nothing is checked and
+   * the caller checks after inserting.
+   */
+  proposed?: boolean
+}
+
+// pass a where, or an action to use the model's permission for it
 export type Can = <PWhere extends Where>(
-  where: PWhere,
-  obj: string | Record<string, unknown>
+  whereOrAction: PWhere | PermissionAction,
+  obj: string | Record<string, unknown>,
+  options?: CanOptions
 ) => Promise<void>
 
 export type AsyncAction = () => Promise<void>
 
+export type RollbackAction = (error: unknown) => void | Promise<void>
+
 type GenericTable = TableBuilderWithColumns<any>
 
 type GetTableSchema<TS extends GenericTable> =
@@ -0,0 +1,103 @@
+import { boolean, createSchema, number, string, table } from '@rocicorp/zero'
+import { describe, expect, test } from 'vitest'
+
+import { diffSchema, formatSchemaDiff } from './verifySchema'
+
+import type { DatabaseColumn } from './verifySchema'
+
+const schema = createSchema({
+  tables: [
+    table('message')
+      .columns({
+        id: string(),
+        content: string(),
+        pinned: boolean(),
+        editedAt: number().optional(),
+      })
+      .primaryKey('id'),
+  ],
+})
+
+function column(
+  name: string,
+  dataType: string,
+  overrides: Partial<DatabaseColumn> = {}
+): DatabaseColumn {
+  return {
+    schema: 'public',
+    table: 'message',
+    column: name,
+    dataType,
+    udtName: dataType,
+    nullable: false,
+    hasDefault: false,
+    ...overrides,
+  }
+}
+
+describe('diffSchema', () => {
+  test('passes when the database matches', () => {
+    const diff = diffSchema(schema, {
+      defaultSchema: 'public',
+      primaryKeys: { 'public.message': ['id'] },
+      columns: [
+        column('id', 'uuid'),
+        column('content', 'text'),
+        column('pinned', 'boolean'),
+        column('editedAt', 'timestamp with time zone', { nullable: true }),
+        column('searchVector', 'tsvector', { nullable: true }),
+      ],
+    })
+
+    expect(diff).toEqual({ ok: true, issues: [] })
+  })
+
+  test('reports missing, mismatched and unmapped columns', () => {
+    const diff = diffSchema(schema, {
+      defaultSchema: 'public',
+      primaryKeys: { 'public.message': ['id', 'content'] },
+      columns: [
+        column('id', 'uuid'),
+        column('content', 'jsonb'),
+        column('editedAt', 'timestamp with time zone'),
+        column('channelId', 'text'),
+      ],
+    })
+
+    expect(diff.ok).toBe(false)
+    expect(diff.issues).toEqual([
+      {
+        kind: 'type-mismatch',
+        table: 'message',
+        column: 'content',
+        expected: 'string',
+        actual: 'jsonb',
+      },
+      { kind: 'missing-column', table: 'message', column: 'pinned' },
+      {
+        kind: 'nullability-mismatch',
+        table: 'message',
+        column: 'editedAt',
+        expectedNullable: true,
+        actualNullable: false,
+      },
+      { kind: 'unmapped-required-column', table: 'message', column: 'channelId' },
+      {
+        kind: 'primary-key-mismatch',
+        table: 'message',
+        expected: ['id'],
+        actual: ['id', 'content'],
+      },
+    ])
+    expect(formatSchemaDiff(diff)).toContain('message.pinned: column missing')
+  })
+
+  test('reports missing tables', () => {
+    const diff = diffSchema(schema, {
+      defaultSchema: 'public',
+      primaryKeys: {},
+      columns: [],
+    })
+    expect(diff.issues).toEqual([{ kind: 'missing-table', table: 'message' }])
+  })
+})
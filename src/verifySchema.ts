@@ -0,0 +1,268 @@
+import type { ResolvedDatabase } from './createDatabase'
+import type { Schema as ZeroSchema } from '@rocicorp/zero'
+
+type ValueType = 'string' | 'number' | 'boolean' | 'null' | 'json'
+
+export type SchemaDriftIssue =
+  | { kind: 'missing-table'; table: string }
+  | { kind: 'missing-column'; table: string; column: string }
+  | {
+      kind: 'type-mismatch'
+      table: string
+      column: string
+      expected: ValueType
+      actual: string
+    }
+  | {
+      kind: 'nullability-mismatch'
+      table: string
+      column: string
+      /** true when the zero schema marks the column optional */
+      expectedNullable: boolean
+      actualNullable: boolean
+    }
+  | { kind: 'primary-key-mismatch'; table: string; expected: string[]; actual: string[] }
+  | {
+      // NOT NULL without a default, inserts through zero can't fill it
+      kind: 'unmapped-required-column'
+      table: string
+      column: string
+    }
+
+export type SchemaDiff = {
+  ok: boolean
+  issues: SchemaDriftIssue[]
+}
+
+// one row of information_schema.columns, plus the table's primary key
+export type DatabaseColumn = {
+  schema: string
+  table: string
+  column: string
+  dataType: string
+  udtName: string
+  nullable: boolean
+  hasDefault: boolean
+}
+
+export type DatabaseTableInfo = {
+  columns: DatabaseColumn[]
+  primaryKeys: Record<string, string[]>
+  /** schema unqualified server names resolve against */
+  defaultSchema: string
+}
+
+export class SchemaDriftError extends Error {
+  constructor(public diff: SchemaDiff) {
+    super(`[verifySchema] schema drift detected:\n${formatSchemaDiff(diff)}`)
+    this.name = 'SchemaDriftError'
+  }
+}
+
+// how zero maps postgres types, anything unknown is left unchecked
+const valueTypesByPgType: Record<string, ValueType> = {
+  text: 'string',
+  'character varying': 'string',
+  character: 'string',
+  uuid: 'string',
+  citext: 'string',
+  inet: 'string',
+  'USER-DEFINED': 'string',
+  smallint: 'number',
+  integer: 'number',
+  bigint: 'number',
+  numeric: 'number',
+  real: 'number',
+  'double precision': 'number',
+  date: 'number',
+  'timestamp without time zone': 'number',
+  'timestamp with time zone': 'number',
+  'time without time zone': 'number',
+  'time with time zone': 'number',
+  boolean: 'boolean',
+  json: 'json',
+  jsonb: 'json',
+  ARRAY: 'json',
+}
+
+export function getValueType({
+  dataType,
+  udtName,
+}: Pick<DatabaseColumn, 'dataType' | 'udtName'>): ValueType | undefined {
+  // enums and domains report USER-DEFINED, citext too
+  return valueTypesByPgType[dataType] ?? valueTypesByPgType[udtName]
+}
+
+function splitServerName(name: string, defaultSchema: string) {
+  const dot = name.indexOf('.')
+  return dot === -1
+    ? { schema: defaultSchema, table: name }
+    : { schema: name.slice(0, dot), table: name.slice(dot + 1) }
+}
+
+/**
+ * Compares a zero schema with what Postgres reports. Only the tables and
+ * columns zero knows about are checked, extra ones are fine unless they are
+ * required on insert.
+ */
+export function diffSchema(schema: ZeroSchema, info: DatabaseTableInfo): SchemaDiff {
+  const issues: SchemaDriftIssue[] = []
+
+  const columnsByTable = new Map<string, DatabaseColumn[]>()
+  for (const column of info.columns) {
+    const key = `${column.schema}.${column.table}`
+    columnsByTable.set(key, [...(columnsByTable.get(key) ?? []), column])
+  }
+
+  for (const tableSchema of Object.values(schema.tables)) {
+    const table = tableSchema.name
+    const { schema: pgSchema, table: pgTable } = splitServerName(
+      tableSchema.serverName ?? table,
+      info.defaultSchema
+    )
+    const key = `${pgSchema}.${pgTable}`
+    const dbColumns = columnsByTable.get(key)
+
+    if (!dbColumns) {
+      issues.push({ kind: 'missing-table', table })
+      continue
+    }
+
+    const byName = new Map(dbColumns.map((c) => [c.column, c]))
+    const mapped = new Set<string>()
+    const serverNames: Record<string, string> = {}
+
+    for (const [column, value] of Object.entries(tableSchema.columns)) {
+      const serverName = value.serverName ?? column
+      serverNames[column] = serverName
+      mapped.add(serverName)
+
+      const dbColumn = byName.get(serverName)
+      if (!dbColumn) {
+        issues.push({ kind: 'missing-column', table, column })
+        continue
+      }
+
+      const actualType = getValueType(dbColumn)
+      if (actualType && value.type !== 'null' && actualType !== value.type) {
+        issues.push({
+          kind: 'type-mismatch',
+          table,
+          column,
+          expected: value.type,
+          actual:
+            dbColumn.dataType === 'USER-DEFINED' ? dbColumn.udtName : dbColumn.dataType,
+        })
+      }
+
+      const expectedNullable = !!value.optional
+      if (expectedNullable !== dbColumn.nullable) {
+        issues.push({
+          kind: 'nullability-mismatch',
+          table,
+          column,
+          expectedNullable,
+          actualNullable: dbColumn.nullable,
+        })
+      }
+    }
+
+    for (const dbColumn of dbColumns) {
+      if (!mapped.has(dbColumn.column) && !dbColumn.nullable && !dbColumn.hasDefault) {
+        issues.push({ kind: 'unmapped-required-column', table, column: dbColumn.column })
+      }
+    }
+
+    const expectedKey = tableSchema.primaryKey.map((c) => serverNames[c] ?? c)
+    const actualKey = info.primaryKeys[key] ?? []
+    if ([...expectedKey].sort().join() !== [...actualKey].sort().join()) {
+      issues.push({
+        kind: 'primary-key-mismatch',
+        table,
+        expected: expectedKey,
+        actual: actualKey,
+      })
+    }
+  }
+
+  return { ok: issues.length === 0, issues }
+}
+
+export function formatSchemaDiff({ issues }: SchemaDiff): string {
+  if (!issues.length) return 'no drift'
+  return issues
+    .map((issue) => {
+      switch (issue.kind) {
+        case 'missing-table':
+          return `- ${issue.table}: table missing`
+        case 'missing-column':
+          return `- ${issue.table}.${issue.column}: column missing`
+        case 'type-mismatch':
+          return `- ${issue.table}.${issue.column}: expected ${issue.expected}, got ${issue.actual}`
+        case 'nullability-mismatch':
+          return `- ${issue.table}.${issue.column}: expected ${issue.expectedNullable ? 'nullable' : 'NOT NULL'}, got ${issue.actualNullable ? 'nullable' : 'NOT NULL'}`
+        case 'primary-key-mismatch':
+          return `- ${issue.table}: expected primary key (${issue.expected.join(', ')}), got (${issue.actual.join(', ')})`
+        case 'unmapped-required-column':
+          return `- ${issue.table}.${issue.column}: NOT NULL without default but missing from the zero schema`
+      }
+    })
+    .join('\n')
+}
+
+/**
+ * Reads tables, columns and primary keys from information_schema.
+ */
+export async function readDatabaseTables(
+  database: Pick<ResolvedDatabase, 'query'>
+): Promise<DatabaseTableInfo> {
+  const [current] = await database.query(`SELECT current_schema() AS "schema"`)
+
+  const columns = await database.query(
+    `SELECT table_schema, table_name, column_name, data_type, udt_name, is_nullable,
+       column_default IS NOT NULL OR is_identity = 'YES' OR is_generated = 'ALWAYS' AS has_default
+     FROM information_schema.columns
+     WHERE table_schema NOT IN ('pg_catalog', 'information_schema')`
+  )
+
+  const keys = await database.query(
+    `SELECT tc.table_schema, tc.table_name, kcu.column_name
+     FROM information_schema.table_constraints tc
+     JOIN information_schema.key_column_usage kcu
+       ON kcu.constraint_name = tc.constraint_name
+      AND kcu.constraint_schema = tc.constraint_schema
+      AND kcu.table_name = tc.table_name
+     WHERE tc.constraint_type = 'PRIMARY KEY'
+     ORDER BY kcu.ordinal_position`
+  )
+
+  const primaryKeys: Record<string, string[]> = {}
+  for (const row of keys) {
+    const key = `${row.table_schema}.${row.table_name}`
+    ;(primaryKeys[key] ??= []).push(row.column_name as string)
+  }
+
+  return {
+    defaultSchema: (current?.schema as string) ?? 'public',
+    primaryKeys,
+    columns: columns.map((row) => ({
+      schema: row.table_schema as string,
+      table: row.table_name as string,
+      column: row.column_name as string,
+      dataType: row.data_type as string,
+      udtName: row.udt_name as string,
+      nullable: row.is_nullable === 'YES',
+      hasDefault: !!row.has_default,
+    })),
+  }
+}
+
+export async function verifySchema({
+  schema,
+  database,
+}: {
+  schema: ZeroSchema
+  database: Pick<ResolvedDatabase, 'query'>
+}): Promise<SchemaDiff> {
+  return diffSchema(schema, await readDatabaseTables(database))
+}